@@ -0,0 +1,208 @@
+// this is a client for the HTTP API of the LiteFS daemon
+import os from 'os'
+import { type InstanceInfo } from './index.js'
+
+export type LiteFSAPIOptions = {
+	/**
+	 * the URL of the LiteFS HTTP API (the http.addr in your litefs.yml config).
+	 * Defaults to process.env.LITEFS_API_URL or http://localhost:20202
+	 */
+	url?: string
+	/** the fetch implementation to use. Defaults to the global fetch */
+	fetch?: typeof fetch
+}
+
+/**
+ * Information about the LiteFS node (GET /info).
+ */
+export type NodeInfo = {
+	/** the id of the node */
+	id: string
+	/** the id of the cluster the node is part of */
+	clusterID?: string
+	/** whether the node currently holds the primary lease */
+	isPrimary: boolean
+	/** whether the node can become the primary */
+	candidate: boolean
+	/** the path of the FUSE mount */
+	path: string
+	/** the current primary (missing if there is no primary) */
+	primary?: { hostname: string }
+}
+
+export type PrimaryEventData = {
+	/** whether the node is the primary */
+	isPrimary: boolean
+	/** the hostname of the primary (missing if the node is the primary) */
+	hostname?: string
+}
+
+export type TxEventData = {
+	/** the transaction id (hex) */
+	txID: string
+	/** the checksum of the database after the transaction (hex) */
+	postApplyChecksum: string
+	pageSize: number
+	commit: number
+	timestamp: string
+}
+
+/**
+ * An event from the LiteFS event stream (GET /events). The stream starts with
+ * an `init` event describing the current primary.
+ */
+export type LiteFSEvent =
+	| { type: 'init'; data: PrimaryEventData }
+	| { type: 'primaryChange'; data: PrimaryEventData }
+	| { type: 'tx'; db: string; data: TxEventData }
+
+export type LiteFSAPIClient = ReturnType<typeof createLiteFSAPIClient>
+
+/**
+ * Creates a client for the HTTP API of the LiteFS daemon. Unlike the rest of
+ * litefs-js, which reads the files LiteFS exposes through FUSE, this talks to
+ * the daemon directly, so it can be notified of events as they happen and can
+ * manage the primary lease.
+ *
+ * @param {LiteFSAPIOptions} [options]
+ * @example
+ * import { createLiteFSAPIClient } from "litefs-js/api";
+ * ...
+ * const api = createLiteFSAPIClient()
+ * const info = await api.getInfo()
+ * for await (const event of api.events()) {
+ * 	if (event.type === 'primaryChange') console.log(event.data)
+ * }
+ * ...
+ */
+export function createLiteFSAPIClient({
+	url = process.env.LITEFS_API_URL ?? 'http://localhost:20202',
+	fetch: fetchImpl = fetch,
+}: LiteFSAPIOptions = {}) {
+	async function request(
+		method: string,
+		pathname: string,
+		init: { signal?: AbortSignal } = {},
+	): Promise<Response> {
+		const response = await fetchImpl(new URL(pathname, url), {
+			method,
+			signal: init.signal,
+		})
+		if (!response.ok) {
+			const body = await response.text().catch(() => '')
+			throw new Error(
+				`litefs-js: ${method} ${pathname} failed with ${response.status}${
+					body ? `: ${body.trim()}` : ''
+				}`,
+			)
+		}
+		return response
+	}
+
+	return {
+		url,
+		/**
+		 * @returns {Promise<NodeInfo>} information about the LiteFS node
+		 */
+		async getInfo(): Promise<NodeInfo> {
+			const response = await request('GET', '/info')
+			return (await response.json()) as NodeInfo
+		},
+		/**
+		 * Streams the events of the LiteFS node. The iterator ends when the
+		 * connection is closed or the signal is aborted.
+		 *
+		 * @param {{ signal?: AbortSignal }} [options]
+		 * @returns {AsyncGenerator<LiteFSEvent>} the events
+		 */
+		async *events({
+			signal,
+		}: { signal?: AbortSignal } = {}): AsyncGenerator<LiteFSEvent> {
+			let response
+			try {
+				response = await request('GET', '/events', { signal })
+			} catch (error: unknown) {
+				if (signal?.aborted) return
+				throw error
+			}
+			if (!response.body) return
+			const reader = response.body
+				.pipeThrough(new TextDecoderStream())
+				.getReader()
+			let buffered = ''
+			try {
+				while (true) {
+					const { done, value } = await reader.read()
+					if (done) break
+					buffered += value
+					const lines = buffered.split('\n')
+					buffered = lines.pop() ?? ''
+					for (const line of lines) {
+						if (line.trim()) yield JSON.parse(line) as LiteFSEvent
+					}
+				}
+				if (buffered.trim()) yield JSON.parse(buffered) as LiteFSEvent
+			} catch (error: unknown) {
+				if (signal?.aborted) return
+				throw error
+			} finally {
+				await reader.cancel().catch(() => {})
+			}
+		},
+		/**
+		 * Asks the node to take over the primary lease (only works on
+		 * candidates).
+		 */
+		async promote(): Promise<void> {
+			await request('POST', '/promote')
+		},
+		/**
+		 * Asks the primary to hand the primary lease off to the given node.
+		 *
+		 * @param {string} nodeId the id of the node to hand off to (see
+		 * `NodeInfo.id`)
+		 */
+		async handoff(nodeId: string): Promise<void> {
+			await request('POST', `/handoff?id=${encodeURIComponent(nodeId)}`)
+		},
+	}
+}
+
+/**
+ * Just like getInstanceInfo except the instance info comes from the LiteFS
+ * HTTP API instead of the `.primary` file.
+ *
+ * @param {LiteFSAPIOptions | LiteFSAPIClient} [options] the API options or
+ * a client created with `createLiteFSAPIClient`
+ * @returns {Promise<InstanceInfo>} the primary instance hostname, the current
+ * instance hostname, and whether the current instance is the primary instance
+ * @throws {Error} if the node isn't the primary and there is no primary (for
+ * example during an election)
+ */
+export async function getInstanceInfo(
+	options?: LiteFSAPIOptions | LiteFSAPIClient,
+): Promise<InstanceInfo> {
+	const client =
+		options && 'getInfo' in options ? options : createLiteFSAPIClient(options)
+	const info = await client.getInfo()
+	const currentInstance = os.hostname()
+	if (info.isPrimary) {
+		return {
+			primaryInstance: currentInstance,
+			currentInstance,
+			currentIsPrimary: true,
+		}
+	}
+	// unlike a missing .primary file, a missing primary here doesn't mean this
+	// node is the primary (there may be an election going on)
+	if (!info.primary?.hostname) {
+		throw new Error(
+			'litefs-js: the LiteFS API reports that there is no primary instance right now',
+		)
+	}
+	return {
+		primaryInstance: info.primary.hostname,
+		currentInstance,
+		currentIsPrimary: false,
+	}
+}
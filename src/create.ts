@@ -0,0 +1,355 @@
+// this is the instance factory which binds a configuration to all utilities
+import type http from 'http'
+import type { RequestHandler } from 'express'
+import * as apiUtils from './api.js'
+import * as expressUtils from './express.js'
+import * as httpUtils from './http.js'
+import {
+	broadcast,
+	checkCookieForTransactionalConsistency,
+	checkReplicationHealth,
+	checkRequestForTransactionalConsistency,
+	createTxCache,
+	getAllInstances,
+	getInstanceInfo,
+	getInstanceInfoSync,
+	getInstances,
+	getInstancesInRegion,
+	getInternalInstanceDomain,
+	getPosition,
+	getPrimaryInstance,
+	getPositionsReport,
+	getReplicationStatus,
+	getTxCookieValue,
+	getTxCookieValueSync,
+	getTxHeaderValue,
+	getTxNumber,
+	getTxNumbers,
+	getTxSetCookieHeader,
+	onPrimaryChange,
+	onTxAdvance,
+	serializeTxCookieValue,
+	waitForUpToDateTxNumber,
+	watchInstanceInfo,
+	type BroadcastOptions,
+	type ConsistencyOptions,
+	type ForwardOptions,
+	type HealthCheckOptions,
+	type Instrumentation,
+	type Logger,
+	type PeerReplayOptions,
+	type TxCookieSettings,
+	type TxCookieValue,
+	type TxTransport,
+} from './index.js'
+import * as remixUtils from './remix.js'
+
+type HealthCheckThresholds = Pick<
+	HealthCheckOptions,
+	'maxLagMs' | 'maxMsSinceLastAdvance'
+>
+
+export type LiteFSConfig = {
+	/**
+	 * the directory where the .primary file is stored. Defaults to
+	 * process.env.LITEFS_DIR. This should be what you set your fuse.dir config to
+	 * in the litefs.yml config.
+	 */
+	litefsDir?: string
+	/**
+	 * The filename of your sqlite database. Defaults to
+	 * process.env.DATABASE_FILENAME.
+	 */
+	databaseFilename?: string
+	/**
+	 * The filenames of all the sqlite databases the transactional consistency
+	 * cookie should track (overrides `databaseFilename`).
+	 */
+	databaseFilenames?: Array<string>
+	/** overrides for the name and attributes of the txnum cookie */
+	cookie?: TxCookieSettings
+	/** secret(s) used to sign the txnum cookie */
+	secrets?: string | Array<string>
+	/** where the transaction number is exchanged with the client */
+	transport?: TxTransport
+	/** how long replicas wait for replication (see waitForUpToDateTxNumber) */
+	timeouts?: {
+		/** Defaults to 500 */
+		timeoutMs?: number
+		/** Defaults to 30 */
+		intervalMs?: number
+	}
+	/** the name of your Fly app. Defaults to process.env.FLY_APP_NAME */
+	appName?: string
+	/**
+	 * the port for requests between instances. Defaults to
+	 * process.env.INTERNAL_PORT or process.env.PORT
+	 */
+	internalPort?: string
+	/** the region of the current instance. Defaults to process.env.FLY_REGION */
+	region?: string
+	/** the logger to use. Defaults to the logger set with `setLogger` */
+	logger?: Logger
+	/**
+	 * the instrumentation hooks to call. Defaults to the instrumentation set with
+	 * `setInstrumentation`
+	 */
+	instrumentation?: Instrumentation
+	/**
+	 * Where `litefs.getInstanceInfo()` reads the primary from: the `.primary`
+	 * file in the FUSE mount or the LiteFS HTTP API. Defaults to "fuse". This
+	 * only affects `getInstanceInfo`: the consistency checks, the framework
+	 * helpers and `watchInstanceInfo` always read the `.primary` file.
+	 */
+	getInstanceInfoSource?: 'fuse' | 'api'
+	/** options for the LiteFS HTTP API client (see `litefs-js/api`) */
+	api?: apiUtils.LiteFSAPIOptions
+	/**
+	 * replay to a caught-up replica in the same region instead of the primary
+	 * when a replica doesn't catch up in time (see the `peers` option of
+	 * `checkCookieForTransactionalConsistency`). `appName`, `region` and
+	 * `internalPort` are used unless they're overridden here.
+	 */
+	peers?: boolean | PeerReplayOptions
+	/**
+	 * forward requests to the primary instead of responding with a fly-replay
+	 * header (see the `forward` option of `ensurePrimary`). `appName` and
+	 * `internalPort` are used unless they're overridden here.
+	 */
+	forward?: boolean | ForwardOptions
+}
+
+/**
+ * Creates a LiteFS object with all the utilities bound to the given
+ * configuration. Anything that's not configured falls back to the environment
+ * variables (read whenever a utility is called), so one process can work with
+ * several configurations without touching process.env.
+ *
+ * @param {LiteFSConfig} [config]
+ * @example
+ * import { createLiteFS } from "litefs-js/create";
+ * ...
+ * const litefs = createLiteFS({ litefsDir: '/litefs', databaseFilename: 'app.db' })
+ * app.use(litefs.express.getTransactionalConsistencyMiddleware())
+ * ...
+ * const { currentIsPrimary } = await litefs.getInstanceInfo()
+ * ...
+ */
+export function createLiteFS(config: LiteFSConfig = {}) {
+	const {
+		litefsDir,
+		databaseFilename,
+		appName,
+		internalPort,
+		region,
+		timeouts,
+		logger,
+		instrumentation,
+	} = config
+	const forwardOptions: ForwardOptions = {
+		appName,
+		port: internalPort,
+		...(typeof config.forward === 'object' ? config.forward : {}),
+	}
+	const options: ConsistencyOptions = {
+		litefsDir,
+		databaseFilename,
+		databaseFilenames: config.databaseFilenames,
+		cookie: config.cookie,
+		secrets: config.secrets,
+		transport: config.transport,
+		timeoutMs: timeouts?.timeoutMs,
+		intervalMs: timeouts?.intervalMs,
+		logger,
+		instrumentation,
+		peers: config.peers && {
+			appName,
+			region,
+			port: internalPort,
+			...(config.peers === true ? {} : config.peers),
+		},
+		forward: config.forward && forwardOptions,
+	}
+	const api = apiUtils.createLiteFSAPIClient(config.api)
+
+	return {
+		config,
+		/**
+		 * the configuration as options you can pass to the other integrations
+		 * (fastify, koa, fetch, hono and next)
+		 */
+		options,
+		/** the LiteFS HTTP API client */
+		api,
+		getInstanceInfo: () =>
+			config.getInstanceInfoSource === 'api'
+				? apiUtils.getInstanceInfo(api)
+				: getInstanceInfo(litefsDir),
+		getInstanceInfoSync: () => getInstanceInfoSync(litefsDir),
+		watchInstanceInfo: (
+			watchOptions?: Parameters<typeof watchInstanceInfo>[1],
+		) => watchInstanceInfo(litefsDir, watchOptions),
+		onPrimaryChange: (listener: Parameters<typeof onPrimaryChange>[0]) =>
+			onPrimaryChange(listener, litefsDir),
+		getTxNumber: () =>
+			getTxNumber(litefsDir, databaseFilename, { logger, instrumentation }),
+		getPosition: () =>
+			getPosition(litefsDir, databaseFilename, { logger, instrumentation }),
+		onTxAdvance: (
+			listener: Parameters<typeof onTxAdvance>[0],
+			watchOptions?: { intervalMs?: number },
+		) =>
+			onTxAdvance(listener, { litefsDir, databaseFilename, ...watchOptions }),
+		createTxCache: <Value>(cacheOptions?: { intervalMs?: number }) =>
+			createTxCache<Value>({ litefsDir, databaseFilename, ...cacheOptions }),
+		getTxNumbers: () => getTxNumbers(options),
+		getTxCookieValue: () => getTxCookieValue(options),
+		getTxCookieValueSync: () => getTxCookieValueSync(options),
+		waitForUpToDateTxNumber: (
+			clientTxNumber: number | bigint,
+			databaseOptions?: { databaseFilename?: string; checksum?: string },
+		) =>
+			waitForUpToDateTxNumber(clientTxNumber, {
+				litefsDir,
+				databaseFilename,
+				logger,
+				instrumentation,
+				...timeouts,
+				...databaseOptions,
+			}),
+		getTxSetCookieHeader: (
+			value: TxCookieValue,
+			cookieOptions?: TxCookieSettings,
+		) =>
+			getTxSetCookieHeader(value, {
+				...config.cookie,
+				...cookieOptions,
+				secrets: config.secrets,
+			}),
+		getTxHeaderValue: (value: TxCookieValue) =>
+			getTxHeaderValue(value, { secrets: config.secrets }),
+		serializeTxCookieValue: (value: TxCookieValue) =>
+			serializeTxCookieValue(value, { secrets: config.secrets }),
+		checkCookieForTransactionalConsistency: (
+			cookieHeader: string | null | undefined,
+		) => checkCookieForTransactionalConsistency(cookieHeader, options),
+		checkRequestForTransactionalConsistency: (
+			headers: Parameters<typeof checkRequestForTransactionalConsistency>[0],
+		) => checkRequestForTransactionalConsistency(headers, options),
+		getInternalInstanceDomain: (instance: string, port = internalPort) =>
+			getInternalInstanceDomain(instance, port, appName),
+		getAllInstances: () => getAllInstances({ appName, region, logger }),
+		getInstances: () => getInstances({ appName, region, litefsDir, logger }),
+		getInstancesInRegion: (instancesRegion = region) =>
+			getInstancesInRegion(instancesRegion, {
+				appName,
+				region,
+				litefsDir,
+				logger,
+			}),
+		getPrimaryInstance: () =>
+			getPrimaryInstance({ appName, region, litefsDir, logger }),
+		broadcast: (
+			pathname: string,
+			init?: RequestInit,
+			broadcastOptions?: BroadcastOptions,
+		) =>
+			broadcast(pathname, init, {
+				appName,
+				region,
+				litefsDir,
+				logger,
+				port: internalPort,
+				...broadcastOptions,
+			}),
+		getReplicationStatus: () => getReplicationStatus(options),
+		getPositionsReport: () => getPositionsReport(options),
+		checkReplicationHealth: (thresholds?: HealthCheckThresholds) =>
+			checkReplicationHealth({ ...options, ...thresholds }),
+		http: {
+			ensurePrimary: (res: http.ServerResponse) =>
+				httpUtils.ensurePrimary(res, options),
+			forwardRequest: (
+				req: http.IncomingMessage,
+				res: http.ServerResponse,
+				instance: string,
+			) =>
+				httpUtils.forwardRequest(req, res, instance, {
+					...forwardOptions,
+					logger,
+				}),
+			setTxCookie: (res: http.ServerResponse) =>
+				httpUtils.setTxCookie(res, options),
+			setTxHeader: (res: http.ServerResponse) =>
+				httpUtils.setTxHeader(res, options),
+			setTxNumber: (res: http.ServerResponse) =>
+				httpUtils.setTxNumber(res, options),
+			setTxNumberOnHeaders: (res: http.ServerResponse) =>
+				httpUtils.setTxNumberOnHeaders(res, options),
+			skipTxNumberOnHeaders: httpUtils.skipTxNumberOnHeaders,
+			onHeaders: httpUtils.onHeaders,
+			deleteTxCookie: (res: http.ServerResponse) =>
+				httpUtils.deleteTxCookie(res, options),
+			handleTransactionalConsistency: (
+				req: http.IncomingMessage,
+				res: http.ServerResponse,
+			) => httpUtils.handleTransactionalConsistency(req, res, options),
+			appendHeader: httpUtils.appendHeader,
+			sendHealthCheck: (
+				res: http.ServerResponse,
+				thresholds?: HealthCheckThresholds,
+			) => httpUtils.sendHealthCheck(res, { ...options, ...thresholds }),
+			sendPositions: (res: http.ServerResponse) =>
+				httpUtils.sendPositions(res, options),
+		},
+		express: {
+			getTransactionalConsistencyMiddleware: (
+				matcher?: expressUtils.RequestMatcherOptions,
+			): RequestHandler =>
+				expressUtils.getTransactionalConsistencyMiddleware({
+					...options,
+					...matcher,
+				}),
+			getSetTxNumberMiddleware: (
+				matcher?: expressUtils.RequestMatcherOptions,
+			): RequestHandler =>
+				expressUtils.getSetTxNumberMiddleware({ ...options, ...matcher }),
+			getEnsurePrimaryMiddleware: (
+				matcher?: expressUtils.RequestMatcherOptions,
+			): RequestHandler =>
+				expressUtils.getEnsurePrimaryMiddleware({ ...options, ...matcher }),
+			litefsPolicy: (policy: expressUtils.LiteFSPolicy): RequestHandler =>
+				expressUtils.litefsPolicy(policy, options),
+			getHealthCheckMiddleware: (
+				thresholds?: HealthCheckThresholds,
+			): RequestHandler =>
+				expressUtils.getHealthCheckMiddleware({ ...options, ...thresholds }),
+			getPositionsMiddleware: (): RequestHandler =>
+				expressUtils.getPositionsMiddleware(options),
+		},
+		remix: {
+			ensurePrimary: (request?: Request) =>
+				remixUtils.ensurePrimary({ ...options, request }),
+			ensureInstance: (
+				instance: Parameters<typeof remixUtils.ensureInstance>[0],
+				request?: Request,
+			) => remixUtils.ensureInstance(instance, { ...options, request }),
+			getReplayResponse: remixUtils.getReplayResponse,
+			handleTransactionalConsistency: (request: Request) =>
+				remixUtils.handleTransactionalConsistency(request, options),
+			appendTxNumberCookie: (request: Request, headers: Headers) =>
+				remixUtils.appendTxNumberCookie(request, headers, options),
+			withLiteFS: <Args extends { request: Request }, Result, Data = Response>(
+				loaderOrAction: (args: Args) => Result | Promise<Result>,
+				withOptions?: Pick<remixUtils.WithLiteFSOptions<Result, Data>, 'data'>,
+			) =>
+				remixUtils.withLiteFS(loaderOrAction, { ...options, ...withOptions }),
+			getLiteFSMiddleware: () => remixUtils.getLiteFSMiddleware(options),
+			getHealthCheckResponse: (thresholds?: HealthCheckThresholds) =>
+				remixUtils.getHealthCheckResponse({ ...options, ...thresholds }),
+			getPositionsResponse: () => remixUtils.getPositionsResponse(options),
+		},
+	}
+}
+
+export type LiteFS = ReturnType<typeof createLiteFS>
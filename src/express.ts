@@ -1,14 +1,98 @@
 // this is utilities for node's express module
-import type { RequestHandler } from 'express'
-import { getInstanceInfo } from './index.js'
+import type { Request, RequestHandler } from 'express'
+import {
+	getInstanceInfo,
+	type ConsistencyOptions,
+	type DatabasesOptions,
+	type EnsurePrimaryOptions,
+	type HealthCheckOptions,
+	type LoggerOptions,
+} from './index.js'
 import {
 	ensurePrimary,
 	handleTransactionalConsistency,
-	setTxCookie,
+	sendHealthCheck,
+	sendPositions,
+	setTxNumberOnHeaders,
 } from './http.js'
 
 export * from './http.js'
 
+/**
+ * Which requests a middleware applies to. A request must match every option
+ * that is given.
+ */
+export type RequestMatcherOptions = {
+	/**
+	 * the request methods the middleware applies to. Defaults to POST, PUT,
+	 * PATCH and DELETE for `getEnsurePrimaryMiddleware` and
+	 * `getSetTxNumberMiddleware` and to every method for
+	 * `getTransactionalConsistencyMiddleware`
+	 */
+	methods?: Array<string>
+	/**
+	 * only apply to these paths. A string matches the path and everything below
+	 * it (like `app.use`), a RegExp is tested against `req.path`
+	 */
+	include?: Array<string | RegExp>
+	/**
+	 * never apply to these paths (for example static assets). Same format as
+	 * `include`
+	 */
+	exclude?: Array<string | RegExp>
+	/** only apply to requests this returns true for */
+	predicate?: (req: Request) => boolean
+}
+
+/**
+ * A per-route override of the middlewares (see `litefsPolicy`). Anything
+ * that's not set falls back to the options of the middlewares.
+ */
+export type LiteFSPolicy = {
+	/** whether the request must be handled by the primary instance */
+	requirePrimary?: boolean
+	/** whether to wait for the client's transaction number */
+	consistency?: boolean
+	/**
+	 * whether to set the transaction number on the response. Defaults to
+	 * `requirePrimary`
+	 */
+	setTxNumber?: boolean
+}
+
+type Step = 'consistency' | 'primary' | 'tx-number'
+
+const policies = new WeakMap<Request, LiteFSPolicy>()
+const completedSteps = new WeakMap<Request, Set<Step>>()
+
+function completeStep(req: Request, step: Step): boolean {
+	const steps = completedSteps.get(req) ?? new Set<Step>()
+	completedSteps.set(req, steps)
+	if (steps.has(step)) return false
+	steps.add(step)
+	return true
+}
+
+function matchesPath(pathname: string, pattern: string | RegExp): boolean {
+	if (typeof pattern !== 'string') return pattern.test(pathname)
+	const prefix = pattern.endsWith('/') ? pattern : `${pattern}/`
+	return pathname === pattern || pathname.startsWith(prefix)
+}
+
+function matchesRequest(
+	req: Request,
+	{ methods, include, exclude, predicate }: RequestMatcherOptions,
+): boolean {
+	if (methods && !methods.some(m => m.toUpperCase() === req.method)) {
+		return false
+	}
+	if (include && !include.some(p => matchesPath(req.path, p))) return false
+	if (exclude?.some(p => matchesPath(req.path, p))) return false
+	return predicate ? predicate(req) : true
+}
+
+const mutationMethods = ['POST', 'PUT', 'PATCH', 'DELETE']
+
 /**
  * This is an express middleware that will ensure that if the client has a
  * transaction number cookie, then the server will wait until the transaction
@@ -18,32 +102,60 @@ export * from './http.js'
  * This should be used in conjunction with the `getSetTxNumberMiddleware` middleware.
  *
  * This should be applied to your app before any database reads or writes.
+ * @param {ConsistencyOptions & RequestMatcherOptions} [options] the databases
+ * to wait for, the secrets to verify the cookie with, whether to read the tx
+ * number from the cookie, the `LiteFS-Tx` header, or both, and which requests
+ * to check (all of them by default)
+ * @example
+ * app.use(getTransactionalConsistencyMiddleware({ exclude: ['/assets'] }))
  * @returns {RequestHandler} the middleware
  */
-export function getTransactionalConsistencyMiddleware(): RequestHandler {
+export function getTransactionalConsistencyMiddleware(
+	options: ConsistencyOptions & RequestMatcherOptions = {},
+): RequestHandler {
 	return async (req, res, next) => {
-		const replayed = await handleTransactionalConsistency(req, res)
-		if (replayed) return
+		const apply = policies.get(req)?.consistency ?? matchesRequest(req, options)
+		if (apply && completeStep(req, 'consistency')) {
+			const replayed = await handleTransactionalConsistency(req, res, options)
+			if (replayed) return
+		}
 		next()
 	}
 }
 
 /**
  * This is an express middleware that will set the transaction number cookie on
- * the response object if the current instance is the primary instance.
+ * the response object if the current instance is the primary instance. The
+ * transaction number is read right before the response headers are written,
+ * so it includes the mutations of the route handler.
  *
  * This should be used in conjunction with the `getTransactionalConsistencyMiddleware` middleware.
  *
- * This should be applied to your app after all database reads or writes.
+ * This can be applied anywhere before the response is sent. For streaming
+ * responses, call `skipTxNumberOnHeaders(res)` and use `setTxNumber` before
+ * you start streaming.
  *
+ * @param {ConsistencyOptions & RequestMatcherOptions} [options] the databases
+ * to track in the cookie, the secrets to sign it with, whether to set the
+ * cookie, the `LiteFS-Tx` header, or both, and which requests to set it on
+ * (POST, PUT, PATCH and DELETE requests by default)
  * @returns {RequestHandler} the middleware
  */
-export function getSetTxNumberMiddleware(): RequestHandler {
-	const methods = ['POST', 'PUT', 'PATCH', 'DELETE']
+export function getSetTxNumberMiddleware(
+	options: ConsistencyOptions & RequestMatcherOptions = {},
+): RequestHandler {
+	const matcher = { methods: mutationMethods, ...options }
 	return async (req, res, next) => {
-		if (methods.includes(req.method)) {
-			const { currentIsPrimary } = await getInstanceInfo()
-			if (currentIsPrimary) await setTxCookie(res)
+		const policy = policies.get(req)
+		const apply =
+			policy?.setTxNumber ??
+			policy?.requirePrimary ??
+			matchesRequest(req, matcher)
+		if (apply) {
+			const { currentIsPrimary } = await getInstanceInfo(options.litefsDir)
+			if (currentIsPrimary && completeStep(req, 'tx-number')) {
+				setTxNumberOnHeaders(res, options)
+			}
 		}
 		next()
 	}
@@ -54,15 +166,114 @@ export function getSetTxNumberMiddleware(): RequestHandler {
  * primary instance if the current instance is not the primary instance to avoid
  * writing to a non-primary database.
  *
+ * @param {EnsurePrimaryOptions & RequestMatcherOptions} [options] the
+ * directory where the .primary file is stored, the instrumentation hooks and
+ * which requests must be handled by the primary (POST, PUT, PATCH and DELETE
+ * requests by default)
+ * @example
+ * app.use(getEnsurePrimaryMiddleware({ exclude: ['/search'] }))
+ * @returns {RequestHandler} the middleware
+ */
+export function getEnsurePrimaryMiddleware(
+	options: EnsurePrimaryOptions & RequestMatcherOptions = {},
+): RequestHandler {
+	const matcher = { methods: mutationMethods, ...options }
+	return async (req, res, next) => {
+		const apply =
+			policies.get(req)?.requirePrimary ?? matchesRequest(req, matcher)
+		if (apply && completeStep(req, 'primary')) {
+			const replayed = await ensurePrimary(res, options)
+			if (replayed) return
+		}
+		next()
+	}
+}
+
+/**
+ * This is an express middleware that overrides what the other middlewares do
+ * for the requests it handles.
+ *
+ * Mount it before the other middlewares to override them (for example to let
+ * a read-only POST endpoint run on replicas). Used in a route after the other
+ * middlewares, it enforces the policy itself: `requirePrimary` replays the
+ * request to the primary, `consistency` waits for the client's transaction
+ * number and `setTxNumber` sets the transaction number on the response.
+ *
+ * @param {LiteFSPolicy} policy the override
+ * @param {ConsistencyOptions} [options] the options to enforce the policy with
+ * @example
+ * app.use('/search', litefsPolicy({ requirePrimary: false }))
+ * app.use(getEnsurePrimaryMiddleware())
+ * ...
+ * app.get('/track-visit', litefsPolicy({ requirePrimary: true }), handler)
  * @returns {RequestHandler} the middleware
  */
-export function getEnsurePrimaryMiddleware(): RequestHandler {
-	const methods = ['POST', 'PUT', 'PATCH', 'DELETE']
+export function litefsPolicy(
+	policy: LiteFSPolicy,
+	options?: ConsistencyOptions,
+): RequestHandler {
 	return async (req, res, next) => {
-		if (methods.includes(req.method)) {
-			const replayed = await ensurePrimary(res)
+		policies.set(req, { ...policies.get(req), ...policy })
+		if (policy.requirePrimary && completeStep(req, 'primary')) {
+			const replayed = await ensurePrimary(res, options)
+			if (replayed) return
+		}
+		if (policy.consistency && completeStep(req, 'consistency')) {
+			const replayed = await handleTransactionalConsistency(req, res, options)
 			if (replayed) return
 		}
+		if (policy.setTxNumber ?? policy.requirePrimary) {
+			const { currentIsPrimary } = await getInstanceInfo(options?.litefsDir)
+			if (currentIsPrimary && completeStep(req, 'tx-number')) {
+				setTxNumberOnHeaders(res, options)
+			}
+		}
 		next()
 	}
 }
+
+/**
+ * This is an express request handler that responds with the replication
+ * status of the current instance as JSON (with a 503 status code if it's a
+ * replica that fell too far behind). Use this as the readiness check of your
+ * load balancer.
+ *
+ * @param {HealthCheckOptions} [options] the databases to report and the
+ * thresholds that fail readiness
+ * @example
+ * app.get('/healthz', getHealthCheckMiddleware({ maxLagMs: 5000 }))
+ * @returns {RequestHandler} the request handler
+ */
+export function getHealthCheckMiddleware(
+	options?: HealthCheckOptions,
+): RequestHandler {
+	return async (_req, res, next) => {
+		try {
+			await sendHealthCheck(res, options)
+		} catch (error: unknown) {
+			next(error)
+		}
+	}
+}
+
+/**
+ * This is an express request handler that responds with the positions of the
+ * databases of the current instance as JSON, for the `peers` option of the
+ * other instances.
+ *
+ * @param {DatabasesOptions & LoggerOptions} [options] the databases to report
+ * @example
+ * app.get(LITEFS_POSITIONS_PATH, getPositionsMiddleware())
+ * @returns {RequestHandler} the request handler
+ */
+export function getPositionsMiddleware(
+	options?: DatabasesOptions & LoggerOptions,
+): RequestHandler {
+	return async (_req, res, next) => {
+		try {
+			await sendPositions(res, options)
+		} catch (error: unknown) {
+			next(error)
+		}
+	}
+}
@@ -0,0 +1,108 @@
+// this is utilities for fastify
+import type { FastifyPluginAsync, FastifyReply } from 'fastify'
+import {
+	checkRequestForTransactionalConsistency,
+	getInstanceInfo,
+	getTxCookieValue,
+	getTxRequestHeaders,
+	getTxResponseHeaders,
+	replayToPrimary,
+	TXID_NUM_HEADER_NAME,
+	type ConsistencyOptions,
+	type InstanceInfo,
+} from './index.js'
+import { buildFlyReplayHeader, FLY_REPLAY_HEADER_NAME } from './fly-replay.js'
+
+declare module 'fastify' {
+	interface FastifyRequest {
+		/** the instance info read when the request came in */
+		litefs: InstanceInfo
+	}
+}
+
+export type LiteFSPluginOptions = ConsistencyOptions
+
+const mutationMethods = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+function replay(reply: FastifyReply, flyReplayHeader: string) {
+	return reply.code(409).header(FLY_REPLAY_HEADER_NAME, flyReplayHeader).send()
+}
+
+/**
+ * This is a fastify plugin that handles transactional consistency for you:
+ *
+ * - `onRequest`: if the client has a transaction number cookie (or header),
+ *   then the server will wait until the transaction number is up to date
+ *   before continuing. If it takes too long, then it will instead replay to
+ *   the primary instance. Replicas skip this for mutations, which are
+ *   replayed by the `preHandler` hook anyway.
+ * - `preHandler`: POST, PUT, PATCH, and DELETE requests are replayed to the
+ *   primary instance if the current instance is not the primary instance.
+ * - `onSend`: sets the transaction number cookie (or header) on mutation
+ *   responses from the primary instance, after the handler has finished.
+ *
+ * It also decorates the request with the current `InstanceInfo` as
+ * `request.litefs`.
+ *
+ * @example
+ * import Fastify from "fastify";
+ * import { litefsPlugin } from "litefs-js/fastify";
+ * ...
+ * const app = Fastify()
+ * await app.register(litefsPlugin)
+ * ...
+ */
+export const litefsPlugin: FastifyPluginAsync<LiteFSPluginOptions> = async (
+	fastify,
+	options,
+) => {
+	fastify.decorateRequest('litefs', null as unknown as InstanceInfo)
+
+	fastify.addHook('onRequest', async (request, reply) => {
+		request.litefs = await getInstanceInfo(options.litefsDir)
+		// mutations are replayed to the primary by the preHandler hook, so a
+		// replica doesn't wait for replication before replaying them
+		if (
+			mutationMethods.includes(request.method) &&
+			!request.litefs.currentIsPrimary
+		) {
+			return
+		}
+
+		const result = await checkRequestForTransactionalConsistency(
+			getTxRequestHeaders(name => request.headers[name.toLowerCase()], options),
+			options,
+		)
+		if (result.type === 'replay') return replay(reply, result.flyReplayHeader)
+		if (result.type === 'delete-cookie') {
+			reply.header('Set-Cookie', result.setCookieHeader)
+		}
+	})
+
+	fastify.addHook('preHandler', async (request, reply) => {
+		if (!mutationMethods.includes(request.method)) return
+		const { currentIsPrimary, primaryInstance } = request.litefs
+		if (currentIsPrimary) return
+		const target = replayToPrimary(primaryInstance, options)
+		return replay(reply, buildFlyReplayHeader(target))
+	})
+
+	fastify.addHook('onSend', async (request, reply, payload) => {
+		if (!mutationMethods.includes(request.method)) return payload
+		if (!request.litefs?.currentIsPrimary) return payload
+		const { setCookieHeader, txHeader } = getTxResponseHeaders(
+			await getTxCookieValue(options),
+			options,
+		)
+		if (setCookieHeader) reply.header('Set-Cookie', setCookieHeader)
+		if (txHeader) reply.header(TXID_NUM_HEADER_NAME, txHeader)
+		return payload
+	})
+}
+
+// this is what fastify-plugin does so the hooks apply to the whole app instead
+// of just the plugin's encapsulated context
+Object.assign(litefsPlugin, {
+	[Symbol.for('skip-override')]: true,
+	[Symbol.for('fastify.display-name')]: 'litefs-js',
+})
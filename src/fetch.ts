@@ -0,0 +1,272 @@
+// this is utilities for web-standard fetch handlers (Request => Response)
+import os from 'os'
+import {
+	checkRequestForTransactionalConsistency,
+	FORWARDED_HEADER_NAME,
+	getInstanceInfo,
+	getInternalInstanceDomain,
+	getTxCookieValue,
+	getTxRequestHeaders,
+	getTxResponseHeaders,
+	replayToPrimary,
+	TXID_NUM_HEADER_NAME,
+	type ConsistencyOptions,
+	type ForwardOptions,
+	type InstanceInfo,
+	type ReplayTarget,
+} from './index.js'
+import { getLogger, type LoggerOptions } from './logger.js'
+import { buildFlyReplayHeader, FLY_REPLAY_HEADER_NAME } from './fly-replay.js'
+
+export type FetchHandler = (request: Request) => Response | Promise<Response>
+
+type PreparedRequest =
+	| { type: 'replay'; response: Response }
+	| {
+			type: 'continue'
+			instanceInfo: InstanceInfo
+			/**
+			 * Appends the transaction number cookie/header (or the cookie deletion)
+			 * to the response headers. Call this after all mutations are finished.
+			 */
+			appendResponseHeaders: (headers: Headers) => Promise<void>
+	  }
+
+const mutationMethods = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+// these only apply to a single connection, so they aren't forwarded
+const hopByHopHeaders = [
+	'connection',
+	'host',
+	'keep-alive',
+	'proxy-connection',
+	'te',
+	'trailer',
+	'transfer-encoding',
+	'upgrade',
+]
+
+/**
+ * Creates a Response object with a status code of 409 and the fly-replay
+ * header set so Fly will replay the request.
+ *
+ * @param {string | ReplayTarget} target where to replay the request, or the
+ * value of the fly-replay header (for example `instance=${primaryInstance}`)
+ * @returns {Response} the response for Fly to intercept
+ */
+export function getReplayResponse(target: string | ReplayTarget): Response {
+	return new Response(null, {
+		status: 409,
+		headers: {
+			[FLY_REPLAY_HEADER_NAME]:
+				typeof target === 'string' ? target : buildFlyReplayHeader(target),
+		},
+	})
+}
+
+/**
+ * Forwards the request (method, headers and body) to another instance and
+ * resolves to its response, for when fly-replay isn't available (see the
+ * `forward` option). Requests are only forwarded once: a request that was
+ * already forwarded gets a 508 response instead. If the other instance can't
+ * be reached, the response is a 502 (or a 504 if it timed out).
+ *
+ * @param {Request} request the fetch request object
+ * @param {string} instance the hostname of the instance to forward to
+ * @param {ForwardOptions & LoggerOptions} [options]
+ * @example
+ * import { forwardRequest } from "litefs-js/fetch";
+ * ...
+ * const { currentIsPrimary, primaryInstance } = await getInstanceInfo()
+ * if (!currentIsPrimary) return forwardRequest(request, primaryInstance)
+ * ...
+ * @returns {Promise<Response>} the response of the other instance
+ */
+export async function forwardRequest(
+	request: Request,
+	instance: string,
+	{
+		port,
+		appName,
+		getInstanceOrigin = instance =>
+			getInternalInstanceDomain(instance, port, appName),
+		timeoutMs = 10_000,
+		fetch: fetchImpl = fetch,
+		logger,
+	}: ForwardOptions & LoggerOptions = {},
+): Promise<Response> {
+	const forwardedBy = request.headers.get(FORWARDED_HEADER_NAME)
+	if (forwardedBy) {
+		getLogger({ logger }).error(
+			{ code: 'forward-failed', instance },
+			`The request was already forwarded by ${forwardedBy}, not forwarding it again to avoid a loop`,
+		)
+		return new Response(
+			`litefs-js: this request was already forwarded by ${forwardedBy}`,
+			{ status: 508 },
+		)
+	}
+
+	const { pathname, search } = new URL(request.url)
+	const headers = new Headers(request.headers)
+	for (const name of hopByHopHeaders) headers.delete(name)
+	headers.set(FORWARDED_HEADER_NAME, os.hostname())
+	const controller = new AbortController()
+	const timeout = setTimeout(() => controller.abort(), timeoutMs)
+	let response
+	try {
+		response = await fetchImpl(
+			`${getInstanceOrigin(instance)}${pathname}${search}`,
+			{
+				method: request.method,
+				headers,
+				body: request.body,
+				redirect: 'manual',
+				signal: controller.signal,
+				// required to stream the request body
+				duplex: 'half',
+			} as RequestInit,
+		)
+	} catch (error: unknown) {
+		const timedOut = controller.signal.aborted
+		getLogger({ logger }).error(
+			{ code: 'forward-failed', instance, error },
+			timedOut
+				? `Forwarding the request to ${instance} timed out after ${timeoutMs}ms`
+				: `Error forwarding the request to ${instance}`,
+		)
+		return new Response(null, { status: timedOut ? 504 : 502 })
+	} finally {
+		clearTimeout(timeout)
+	}
+
+	// fetch decodes the body, so these don't describe it anymore
+	const responseHeaders = new Headers(response.headers)
+	responseHeaders.delete('content-encoding')
+	responseHeaders.delete('content-length')
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: responseHeaders,
+	})
+}
+
+/**
+ * Responds with a replay response, or forwards the request if the `forward`
+ * option is set.
+ */
+function replay(
+	request: Request,
+	target: ReplayTarget,
+	options: ConsistencyOptions,
+): Response | Promise<Response> {
+	if (!options.forward || !target.instance) return getReplayResponse(target)
+	return forwardRequest(request, target.instance, {
+		...(options.forward === true ? {} : options.forward),
+		logger: options.logger,
+	})
+}
+
+/**
+ * This is the building block for fetch-based integrations. It replays
+ * mutations (POST, PUT, PATCH, and DELETE) to the primary instance and waits
+ * for the transaction number from the client to be up to date (replaying to the
+ * primary if it takes too long). With the `forward` option, the request is
+ * forwarded to the primary instead and `response` is the primary's response.
+ *
+ * If the request can continue, call `appendResponseHeaders` with your response
+ * headers once all mutations are finished to set (or delete) the transaction
+ * number cookie.
+ *
+ * @param {Request} request the fetch request object
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * import { prepareRequest } from "litefs-js/fetch";
+ * ...
+ * const prepared = await prepareRequest(request)
+ * if (prepared.type === 'replay') return prepared.response
+ * const response = await handle(request)
+ * await prepared.appendResponseHeaders(response.headers)
+ * return response
+ * ...
+ * @returns {Promise<PreparedRequest>}
+ */
+export async function prepareRequest(
+	request: Request,
+	options: ConsistencyOptions = {},
+): Promise<PreparedRequest> {
+	const instanceInfo = await getInstanceInfo(options.litefsDir)
+	const isMutation = mutationMethods.includes(request.method)
+	if (isMutation && !instanceInfo.currentIsPrimary) {
+		return {
+			type: 'replay',
+			response: await replay(
+				request,
+				replayToPrimary(instanceInfo.primaryInstance, options),
+				options,
+			),
+		}
+	}
+
+	const result = await checkRequestForTransactionalConsistency(
+		getTxRequestHeaders(name => request.headers.get(name), options),
+		options,
+	)
+	if (result.type === 'replay') {
+		return {
+			type: 'replay',
+			response: await replay(request, result.target, options),
+		}
+	}
+
+	return {
+		type: 'continue',
+		instanceInfo,
+		async appendResponseHeaders(headers) {
+			const setTxNumber = isMutation && instanceInfo.currentIsPrimary
+			// a new tx number cookie replaces the one we would delete
+			if (result.type === 'delete-cookie' && !setTxNumber) {
+				headers.append('Set-Cookie', result.setCookieHeader)
+			}
+			if (!setTxNumber) return
+
+			const { setCookieHeader, txHeader } = getTxResponseHeaders(
+				await getTxCookieValue(options),
+				options,
+			)
+			if (setCookieHeader) headers.append('Set-Cookie', setCookieHeader)
+			if (txHeader) headers.set(TXID_NUM_HEADER_NAME, txHeader)
+		},
+	}
+}
+
+/**
+ * Wraps a fetch handler (like the ones used by Hono, Bun.serve, Deno.serve,
+ * etc.) with the full LiteFS flow: mutations are replayed to the primary
+ * instance, the transaction number from the client is checked for consistency
+ * and the transaction number cookie is set on responses to mutations.
+ *
+ * @param {FetchHandler} handler your fetch handler
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * import { withLiteFS } from "litefs-js/fetch";
+ * ...
+ * Bun.serve({ fetch: withLiteFS(handler) })
+ * ...
+ * @returns {FetchHandler} the wrapped handler
+ */
+export function withLiteFS(
+	handler: FetchHandler,
+	options?: ConsistencyOptions,
+): FetchHandler {
+	return async request => {
+		const prepared = await prepareRequest(request, options)
+		if (prepared.type === 'replay') return prepared.response
+
+		const handlerResponse = await handler(request)
+		// copy the response because the headers of some responses are immutable
+		const response = new Response(handlerResponse.body, handlerResponse)
+		await prepared.appendResponseHeaders(response.headers)
+		return response
+	}
+}
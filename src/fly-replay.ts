@@ -0,0 +1,137 @@
+// this is utilities for building and parsing the fly-replay headers
+// (https://fly.io/docs/networking/dynamic-request-routing/)
+
+export const FLY_REPLAY_HEADER_NAME = 'fly-replay'
+export const FLY_REPLAY_SRC_HEADER_NAME = 'fly-replay-src'
+
+/**
+ * Where the Fly proxy should replay a request. At least one of `instance`,
+ * `region`, `app` or `elsewhere` must be set.
+ */
+export type ReplayTarget = {
+	/** the id of the instance (machine) to replay to */
+	instance?: string
+	/** the region to replay to (for example "sjc") */
+	region?: string
+	/** the name of the Fly app to replay to (defaults to the current app) */
+	app?: string
+	/** replay to any instance other than the current one */
+	elsewhere?: boolean
+	/**
+	 * an opaque value passed to the target instance in the `fly-replay-src`
+	 * header (see `parseFlyReplaySrcHeader`)
+	 */
+	state?: string
+}
+
+/**
+ * The `fly-replay-src` header the Fly proxy adds to replayed requests.
+ */
+export type ReplaySource = {
+	/** the id of the instance that asked for the replay */
+	instance?: string
+	/** the region of the instance that asked for the replay */
+	region?: string
+	/** the name of the app that asked for the replay */
+	app?: string
+	/** when the request was replayed (`t` in the header) */
+	timestamp?: number
+	/** the `state` of the replay target */
+	state?: string
+}
+
+function parseFields(value: string): Map<string, string> {
+	const fields = new Map<string, string>()
+	for (const field of value.split(';')) {
+		const separator = field.indexOf('=')
+		if (separator === -1) continue
+		const key = field.slice(0, separator).trim()
+		if (key) fields.set(key, field.slice(separator + 1).trim())
+	}
+	return fields
+}
+
+/**
+ * Builds the value of the `fly-replay` header.
+ *
+ * @param {ReplayTarget | string} target where to replay the request (a string
+ * is the id of an instance)
+ * @example
+ * import { buildFlyReplayHeader } from "litefs-js";
+ * ...
+ * res.setHeader('fly-replay', buildFlyReplayHeader({ region: 'sjc', state: 'retry' }))
+ * ...
+ * @returns {string} the header value (for example `instance=abc123;state=retry`)
+ * @throws {Error} if the target is empty or a value contains a `;`
+ */
+export function buildFlyReplayHeader(target: ReplayTarget | string): string {
+	const { instance, region, app, elsewhere, state } =
+		typeof target === 'string' ? { instance: target } : target
+	if (!instance && !region && !app && !elsewhere) {
+		throw new Error(
+			'litefs-js: a replay target needs an instance, a region, an app or elsewhere',
+		)
+	}
+	const fields: Array<[string, string | undefined]> = [
+		['instance', instance],
+		['region', region],
+		['app', app],
+		['elsewhere', elsewhere ? 'true' : undefined],
+		['state', state],
+	]
+	return fields
+		.filter((field): field is [string, string] => Boolean(field[1]))
+		.map(([key, value]) => {
+			if (value.includes(';')) {
+				throw new Error(
+					`litefs-js: the ${key} of a replay target cannot contain ";" (got "${value}")`,
+				)
+			}
+			return `${key}=${value}`
+		})
+		.join(';')
+}
+
+/**
+ * Parses the value of a `fly-replay` header. Unknown fields are ignored.
+ *
+ * @param {string} value the header value
+ * @returns {ReplayTarget} the replay target
+ */
+export function parseFlyReplayHeader(value: string): ReplayTarget {
+	const fields = parseFields(value)
+	const target: ReplayTarget = {}
+	if (fields.has('instance')) target.instance = fields.get('instance')
+	if (fields.has('region')) target.region = fields.get('region')
+	if (fields.has('app')) target.app = fields.get('app')
+	if (fields.get('elsewhere') === 'true') target.elsewhere = true
+	if (fields.has('state')) target.state = fields.get('state')
+	return target
+}
+
+/**
+ * Parses the value of the `fly-replay-src` header the Fly proxy adds to
+ * replayed requests. Unknown fields are ignored.
+ *
+ * @param {string} value the header value
+ * @example
+ * import { parseFlyReplaySrcHeader } from "litefs-js";
+ * ...
+ * const src = req.headers['fly-replay-src']
+ * const { state } = src ? parseFlyReplaySrcHeader(src) : {}
+ * ...
+ * @returns {ReplaySource} where the request was replayed from
+ */
+export function parseFlyReplaySrcHeader(value: string): ReplaySource {
+	const fields = parseFields(value)
+	const source: ReplaySource = {}
+	if (fields.has('instance')) source.instance = fields.get('instance')
+	if (fields.has('region')) source.region = fields.get('region')
+	if (fields.has('app')) source.app = fields.get('app')
+	const timestamp = Number(fields.get('t'))
+	if (fields.has('t') && Number.isFinite(timestamp)) {
+		source.timestamp = timestamp
+	}
+	if (fields.has('state')) source.state = fields.get('state')
+	return source
+}
@@ -0,0 +1,33 @@
+// this is utilities for hono
+import type { MiddlewareHandler } from 'hono'
+import { prepareRequest } from './fetch.js'
+import type { ConsistencyOptions } from './index.js'
+
+/**
+ * This is a hono middleware that replays mutations (POST, PUT, PATCH, and
+ * DELETE) to the primary instance, waits for the transaction number from the
+ * client to be up to date, and sets the transaction number cookie on responses
+ * to mutations once the downstream handlers are finished.
+ *
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * import { Hono } from "hono";
+ * import { litefs } from "litefs-js/hono";
+ * ...
+ * const app = new Hono()
+ * app.use(litefs())
+ * ...
+ * @returns {MiddlewareHandler} the middleware
+ */
+export function litefs(options?: ConsistencyOptions): MiddlewareHandler {
+	return async (c, next) => {
+		const prepared = await prepareRequest(c.req.raw, options)
+		if (prepared.type === 'replay') return prepared.response
+
+		await next()
+		// copy the response, the headers of responses like Response.redirect()
+		// or fetch() are immutable
+		c.res = new Response(c.res.body, c.res)
+		await prepared.appendResponseHeaders(c.res.headers)
+	}
+}
@@ -1,17 +1,114 @@
 // this is utilities for node's http module
 import type http from 'http'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream } from 'stream/web'
+import { forwardRequest as forwardFetchRequest } from './fetch.js'
 import {
-	checkCookieForTransactionalConsistency,
+	checkReplicationHealth,
+	checkRequestForTransactionalConsistency,
 	getInstanceInfo,
-	getTxNumber,
+	getPositionsReport,
+	getTxCookieValue,
+	getTxCookieValueSync,
+	getTxHeaderValue,
+	getTxRequestHeaders,
+	getTxResponseHeaders,
 	getTxSetCookieHeader,
+	replayToPrimary,
+	TXID_NUM_HEADER_NAME,
+	type ConsistencyOptions,
+	type DatabasesOptions,
+	type EnsurePrimaryOptions,
+	type ForwardOptions,
+	type HealthCheckOptions,
+	type LoggerOptions,
+	type TxCookieOptions,
+	type TxCookieValue,
 } from './index.js'
+import {
+	buildFlyReplayHeader,
+	FLY_REPLAY_HEADER_NAME,
+	type ReplayTarget,
+} from './fly-replay.js'
+
+/**
+ * Forwards the request (method, headers and body) to another instance and
+ * pipes its response back, for when fly-replay isn't available (see the
+ * `forward` option). The request body must not have been read yet, so use
+ * this before any body parser. Requests are only forwarded once: a request
+ * that was already forwarded gets a 508 response instead.
+ *
+ * @param {http.IncomingMessage} req the http request object
+ * @param {http.ServerResponse} res the http response object
+ * @param {string} instance the hostname of the instance to forward to
+ * @param {ForwardOptions & LoggerOptions} [options]
+ * @returns {Promise<void>} resolves once the response is sent
+ */
+export async function forwardRequest(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+	instance: string,
+	options?: ForwardOptions & LoggerOptions,
+): Promise<void> {
+	const headers = new Headers()
+	for (const [name, value] of Object.entries(req.headers)) {
+		for (const v of Array.isArray(value) ? value : [value]) {
+			if (v !== undefined) headers.append(name, v)
+		}
+	}
+	const hasBody = req.method !== 'GET' && req.method !== 'HEAD'
+	const request = new Request(new URL(req.url ?? '/', 'http://localhost'), {
+		method: req.method,
+		headers,
+		body: hasBody ? (Readable.toWeb(req) as unknown as BodyInit) : undefined,
+		// required to stream the request body
+		duplex: 'half',
+	} as RequestInit)
+	const response = await forwardFetchRequest(request, instance, options)
+
+	const responseHeaders: http.OutgoingHttpHeaders = {}
+	response.headers.forEach((value, name) => {
+		if (name !== 'set-cookie') responseHeaders[name] = value
+	})
+	const cookies = response.headers.getSetCookie()
+	if (cookies.length) responseHeaders['set-cookie'] = cookies
+	res.writeHead(response.status, responseHeaders)
+	if (!response.body) {
+		res.end()
+		return
+	}
+	await pipeline(Readable.fromWeb(response.body as ReadableStream), res)
+}
+
+/**
+ * Sends the replay response, or forwards the request if the `forward` option
+ * is set.
+ */
+async function replay(
+	res: http.ServerResponse,
+	target: ReplayTarget,
+	options: EnsurePrimaryOptions & LoggerOptions = {},
+): Promise<void> {
+	if (options.forward && target.instance) {
+		await forwardRequest(res.req, res, target.instance, {
+			...(options.forward === true ? {} : options.forward),
+			logger: options.logger,
+		})
+		return
+	}
+	res.writeHead(409, { [FLY_REPLAY_HEADER_NAME]: buildFlyReplayHeader(target) })
+	res.end()
+}
 
 /**
  * If the current instance is the primary instance, then returns false.
  * Otherwise, this will set the response status code to 409 and the
- * fly-replay header to the primary instance. It will also end the response.
+ * fly-replay header to the primary instance (or forward the request to the
+ * primary with the `forward` option). It will also end the response.
  * @param {http.ServerResponse} res the http response object
+ * @param {EnsurePrimaryOptions} [options] the directory where the .primary
+ * file is stored, the instrumentation hooks and whether to forward requests
  * @returns {Promise<boolean>} whether the request was replayed
  * @example
  * import { ensurePrimary } from "litefs-js/http";
@@ -22,14 +119,14 @@ import {
  */
 export async function ensurePrimary(
 	res: http.ServerResponse,
+	options?: EnsurePrimaryOptions,
 ): Promise<boolean> {
-	const { currentIsPrimary, primaryInstance } = await getInstanceInfo()
+	const { currentIsPrimary, primaryInstance } = await getInstanceInfo(
+		options?.litefsDir,
+	)
 	if (currentIsPrimary) return false
 
-	res.writeHead(409, {
-		'fly-replay': `instance=${primaryInstance}`,
-	})
-	res.end()
+	await replay(res, replayToPrimary(primaryInstance, options), options)
 	return true
 }
 
@@ -42,6 +139,8 @@ export async function ensurePrimary(
  * out of date.
  *
  * @param {http.ServerResponse} res the http response object
+ * @param {TxCookieOptions} [options] the databases to track in the cookie and
+ * the secrets to sign it with
  * @example
  * import { setTxCookie } from "litefs-js/http";
  * ...
@@ -49,13 +148,162 @@ export async function ensurePrimary(
  * ...
  * @returns {Promise<void>}
  */
-export async function setTxCookie(res: http.ServerResponse): Promise<void> {
-	appendHeader(res, 'Set-Cookie', getTxSetCookieHeader(await getTxNumber()))
+export async function setTxCookie(
+	res: http.ServerResponse,
+	options?: TxCookieOptions,
+): Promise<void> {
+	appendTxCookie(res, await getTxCookieValue(options), options)
+}
+
+function appendTxCookie(
+	res: http.ServerResponse,
+	value: TxCookieValue,
+	options?: TxCookieOptions,
+) {
+	appendHeader(
+		res,
+		'Set-Cookie',
+		getTxSetCookieHeader(value, {
+			...options?.cookie,
+			secrets: options?.secrets,
+		}),
+	)
+}
+
+/**
+ * Sets the `LiteFS-Tx` header on the response object for clients that don't
+ * keep cookies.
+ *
+ * **NOTE**: It's very important that you do this *after* mutations to the
+ * database, otherwise you'll be setting the header to a value that is
+ * out of date.
+ *
+ * @param {http.ServerResponse} res the http response object
+ * @param {TxCookieOptions} [options] the databases to track in the header and
+ * the secrets to sign it with
+ * @returns {Promise<void>}
+ */
+export async function setTxHeader(
+	res: http.ServerResponse,
+	options?: TxCookieOptions,
+): Promise<void> {
+	res.setHeader(
+		TXID_NUM_HEADER_NAME,
+		getTxHeaderValue(await getTxCookieValue(options), {
+			secrets: options?.secrets,
+		}),
+	)
+}
+
+/**
+ * Calls `listener` right before the response headers are written (when
+ * `writeHead` is called explicitly or by the first `write` or `end`), so it
+ * can still set headers. The listener is called at most once and must be
+ * synchronous.
+ *
+ * @param {http.ServerResponse} res the http response object
+ * @param {() => void} listener the function to call
+ */
+export function onHeaders(res: http.ServerResponse, listener: () => void) {
+	const writeHead = res.writeHead
+	let called = false
+	res.writeHead = function (this: http.ServerResponse, ...args: unknown[]) {
+		if (!called) {
+			called = true
+			listener()
+		}
+		return (writeHead as (...args: unknown[]) => http.ServerResponse).apply(
+			this,
+			args,
+		)
+	} as typeof res.writeHead
+}
+
+const skippedResponses = new WeakSet<http.ServerResponse>()
+
+/**
+ * Sets the transaction number on the response object (like `setTxNumber`)
+ * right before the response headers are written, which is after the request
+ * handler is done mutating the database. The "-pos" files are read
+ * synchronously at that moment.
+ *
+ * If you stream the response, the headers are written before the stream is
+ * finished, so call `skipTxNumberOnHeaders` and set the transaction number
+ * yourself (with `setTxNumber`) after your mutations and before you start
+ * streaming.
+ *
+ * @param {http.ServerResponse} res the http response object
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * import { setTxNumberOnHeaders } from "litefs-js/http";
+ * ...
+ * setTxNumberOnHeaders(res);
+ * await db.user.update(...);
+ * res.end();
+ * ...
+ */
+export function setTxNumberOnHeaders(
+	res: http.ServerResponse,
+	options?: ConsistencyOptions,
+): void {
+	onHeaders(res, () => {
+		if (skippedResponses.has(res)) return
+		setTxResponseHeaders(res, getTxCookieValueSync(options), options)
+	})
+}
+
+/**
+ * Opts the response out of `setTxNumberOnHeaders` (and
+ * `getSetTxNumberMiddleware`). Use this for streaming responses and set the
+ * transaction number yourself before you start streaming.
+ *
+ * @param {http.ServerResponse} res the http response object
+ * @example
+ * import { setTxNumber, skipTxNumberOnHeaders } from "litefs-js/http";
+ * ...
+ * await db.user.update(...);
+ * skipTxNumberOnHeaders(res);
+ * await setTxNumber(res);
+ * stream.pipe(res);
+ * ...
+ */
+export function skipTxNumberOnHeaders(res: http.ServerResponse): void {
+	skippedResponses.add(res)
+}
+
+/**
+ * Sets the transaction number on the response object using the cookie, the
+ * `LiteFS-Tx` header, or both depending on `options.transport`.
+ *
+ * **NOTE**: It's very important that you do this *after* mutations to the
+ * database.
+ *
+ * @param {http.ServerResponse} res the http response object
+ * @param {ConsistencyOptions} [options]
+ * @returns {Promise<void>}
+ */
+export async function setTxNumber(
+	res: http.ServerResponse,
+	options?: ConsistencyOptions,
+): Promise<void> {
+	setTxResponseHeaders(res, await getTxCookieValue(options), options)
+}
+
+function setTxResponseHeaders(
+	res: http.ServerResponse,
+	value: TxCookieValue,
+	options?: ConsistencyOptions,
+) {
+	const { setCookieHeader, txHeader } = getTxResponseHeaders(value, options)
+	if (setCookieHeader) appendHeader(res, 'Set-Cookie', setCookieHeader)
+	if (txHeader) res.setHeader(TXID_NUM_HEADER_NAME, txHeader)
 }
 
 /**
  * Deletes the cookie that is used to ensure transactional consistency.
  * @param {http.ServerResponse} res the http response object
+ * @param {TxCookieOptions} [options] overrides for the cookie name and
+ * attributes
  * @example
  * import { deleteTxCookie } from "litefs-js/http";
  * ...
@@ -63,11 +311,14 @@ export async function setTxCookie(res: http.ServerResponse): Promise<void> {
  * ...
  * @returns {Promise<void>}
  */
-export async function deleteTxCookie(res: http.ServerResponse): Promise<void> {
+export async function deleteTxCookie(
+	res: http.ServerResponse,
+	options?: TxCookieOptions,
+): Promise<void> {
 	appendHeader(
 		res,
 		'Set-Cookie',
-		getTxSetCookieHeader(0, { expires: new Date(0) }),
+		getTxSetCookieHeader(0, { ...options?.cookie, expires: new Date(0) }),
 	)
 }
 
@@ -92,8 +343,13 @@ export function appendHeader(
  * deleted if the transaction number in the cookie is up to date. If the transaction
  * number in the cookie is not up to date, then the response will be replayed from
  * the primary instance.
+ *
+ * Depending on `options.transport`, the transaction number is read from the
+ * txnum cookie, the `LiteFS-Tx` header, or both.
  * @param {http.IncomingMessage} req the http request object
  * @param {http.ServerResponse} res the http response object
+ * @param {ConsistencyOptions} [options] the databases to wait for, the
+ * secrets to verify the cookie with and where to read the tx number from
  * @example
  * import { handleTransactionalConsistency } from "litefs-js/http";
  * ...
@@ -105,19 +361,77 @@ export function appendHeader(
 export async function handleTransactionalConsistency(
 	req: http.IncomingMessage,
 	res: http.ServerResponse,
+	options?: ConsistencyOptions,
 ): Promise<boolean> {
-	const result = await checkCookieForTransactionalConsistency(
-		req.headers.cookie,
+	const result = await checkRequestForTransactionalConsistency(
+		getTxRequestHeaders(name => req.headers[name.toLowerCase()], options),
+		options,
 	)
 	if (result.type === 'replay') {
-		res.writeHead(409, { 'fly-replay': result.flyReplayHeader })
-		res.end()
+		await replay(res, result.target, options)
 		return true
 	}
 	if (result.type === 'ok') return false
 	if (result.type === 'delete-cookie') {
-		await deleteTxCookie(res)
+		appendHeader(res, 'Set-Cookie', result.setCookieHeader)
 		return false
 	}
 	throw new Error(`Unknown status type ${result}`)
 }
+
+/**
+ * Responds with the replication status of the current instance as JSON, with
+ * a 200 status code if the instance is ready to serve requests and a 503
+ * status code if it's a replica that fell too far behind (see
+ * `checkReplicationHealth` for the thresholds). Use this as the readiness
+ * check of your load balancer.
+ *
+ * @param {http.ServerResponse} res the http response object
+ * @param {HealthCheckOptions} [options] the databases to report and the
+ * thresholds that fail readiness
+ * @example
+ * import { sendHealthCheck } from "litefs-js/http";
+ * ...
+ * if (req.url === '/healthz') return sendHealthCheck(res);
+ * ...
+ * @returns {Promise<boolean>} whether the instance is ready
+ */
+export async function sendHealthCheck(
+	res: http.ServerResponse,
+	options?: HealthCheckOptions,
+): Promise<boolean> {
+	const { ok, reasons, status } = await checkReplicationHealth(options)
+	res.writeHead(ok ? 200 : 503, {
+		'Content-Type': 'application/json',
+		'Cache-Control': 'no-store',
+	})
+	res.end(JSON.stringify({ ok, reasons, ...status }))
+	return ok
+}
+
+/**
+ * Responds with the positions of the databases of the current instance as
+ * JSON, for the `peers` option of the other instances. Serve this at
+ * `LITEFS_POSITIONS_PATH` on your internal port.
+ *
+ * @param {http.ServerResponse} res the http response object
+ * @param {DatabasesOptions & LoggerOptions} [options] the databases to report
+ * @example
+ * import { LITEFS_POSITIONS_PATH } from "litefs-js";
+ * import { sendPositions } from "litefs-js/http";
+ * ...
+ * if (req.url === LITEFS_POSITIONS_PATH) return sendPositions(res);
+ * ...
+ * @returns {Promise<void>}
+ */
+export async function sendPositions(
+	res: http.ServerResponse,
+	options?: DatabasesOptions & LoggerOptions,
+): Promise<void> {
+	const report = await getPositionsReport(options)
+	res.writeHead(200, {
+		'Content-Type': 'application/json',
+		'Cache-Control': 'no-store',
+	})
+	res.end(JSON.stringify(report))
+}
@@ -1,11 +1,55 @@
+import crypto from 'crypto'
 import fs from 'fs'
 import os from 'os'
 import path from 'path'
 import dns from 'dns'
 import * as cookie from 'cookie'
 import type { SerializeOptions as CookieSerializeOptions } from 'cookie'
+import { buildFlyReplayHeader, type ReplayTarget } from './fly-replay.js'
+import {
+	getLogger,
+	silentLogger,
+	type Logger,
+	type LoggerOptions,
+} from './logger.js'
+import {
+	getInstrumentation,
+	traced,
+	type InstrumentationOptions,
+	type ReplayReason,
+} from './instrumentation.js'
 
-type InstanceInfo = {
+export {
+	buildFlyReplayHeader,
+	FLY_REPLAY_HEADER_NAME,
+	FLY_REPLAY_SRC_HEADER_NAME,
+	parseFlyReplayHeader,
+	parseFlyReplaySrcHeader,
+	type ReplaySource,
+	type ReplayTarget,
+} from './fly-replay.js'
+export {
+	consoleLogger,
+	setLogger,
+	silentLogger,
+	type LogCode,
+	type LogFields,
+	type Logger,
+	type LoggerOptions,
+} from './logger.js'
+export {
+	setInstrumentation,
+	type ConsistencyCheckEvent,
+	type Instrumentation,
+	type InstrumentationOptions,
+	type ReplayEvent,
+	type ReplayReason,
+	type TraceAttributes,
+	type TraceName,
+	type TxWaitEvent,
+} from './instrumentation.js'
+
+export type InstanceInfo = {
 	/** the hostname of the primary instance (found in the `LITEFS_DIR/.primary` file if present, falls back to `os.hostname()`) */
 	primaryInstance: string
 	/** the hostname of the current instance (`os.hostname()`) */
@@ -27,6 +71,85 @@ export type LiteFSDir = string | undefined
  */
 export type DatabaseFilename = string | undefined
 
+export type EnsurePrimaryOptions = InstrumentationOptions & {
+	/**
+	 * the directory where the .primary file is stored. Defaults to
+	 * process.env.LITEFS_DIR.
+	 */
+	litefsDir?: LiteFSDir
+	/**
+	 * the `state` to pass to the primary in the fly-replay header (it receives
+	 * it in the `fly-replay-src` header)
+	 */
+	replayState?: string
+	/**
+	 * Forward requests to the other instance and send back its response
+	 * instead of responding with a fly-replay header, for when the Fly proxy
+	 * isn't in front of your app (local multi-node testing, your own load
+	 * balancer, other platforms). Disabled by default.
+	 */
+	forward?: boolean | ForwardOptions
+}
+
+/**
+ * The header set on forwarded requests (to the hostname of the instance that
+ * forwarded it) so they're never forwarded twice.
+ */
+export const FORWARDED_HEADER_NAME = 'LiteFS-Forwarded'
+
+export type ForwardOptions = {
+	/**
+	 * the port requests are forwarded to. Defaults to process.env.INTERNAL_PORT
+	 * or process.env.PORT
+	 */
+	port?: string
+	/** the name of your Fly app. Defaults to process.env.FLY_APP_NAME */
+	appName?: string
+	/**
+	 * the origin of an instance. Defaults to `getInternalInstanceDomain`, use
+	 * this when your instances aren't reachable through Fly's internal DNS
+	 */
+	getInstanceOrigin?: (instance: string) => string
+	/**
+	 * The maximum amount of time (in milliseconds) to wait for the response
+	 * headers of the other instance. Defaults to 10000.
+	 */
+	timeoutMs?: number
+	/** the fetch implementation to use. Defaults to the global fetch */
+	fetch?: typeof fetch
+}
+
+function getPrimaryReplayTarget(
+	primaryInstance: string,
+	replayState: string | undefined,
+): ReplayTarget {
+	return replayState
+		? { instance: primaryInstance, state: replayState }
+		: { instance: primaryInstance }
+}
+
+/**
+ * Reports to the `replay` instrumentation hook that a mutation is replayed to
+ * the primary instance because the current instance is a replica.
+ *
+ * @param {string} primaryInstance the hostname of the primary instance
+ * @param {EnsurePrimaryOptions} [options] the instrumentation hooks and the
+ * `replayState`
+ * @returns {ReplayTarget} where to replay the request
+ */
+export function replayToPrimary(
+	primaryInstance: string,
+	options?: EnsurePrimaryOptions,
+): ReplayTarget {
+	const target = getPrimaryReplayTarget(primaryInstance, options?.replayState)
+	getInstrumentation(options).replay?.({
+		reason: 'not-primary',
+		instance: primaryInstance,
+		target,
+	})
+	return target
+}
+
 /**
  * If the current instance is the primary instance, then there will be
  * no .primary file in the and the os.hostname() will be considered the primary.
@@ -37,7 +160,8 @@ export type DatabaseFilename = string | undefined
  * this function. Instead, call it each time you need to know the instance info.
  * With the consul lease strategy, the .primary file may change at any time.
  * With a static lease strategy, the .primary file should not change and this
- * function can be cached if desired.
+ * function can be cached if desired. If you want to be notified of changes
+ * (or read the instance info synchronously), use `watchInstanceInfo` instead.
  *
  * @param {LiteFSDir} [litefsDir=process.env.LITEFS_DIR] - the directory where
  * the .primary file is stored. Defaults to process.env.LITEFS_DIR. This should
@@ -106,71 +230,594 @@ export function getInstanceInfoSync(
 }
 
 /**
- * The name of the cookie that should be set in the client to identify the
- * transaction number
+ * Emitted by `onPrimaryChange` whenever the contents of the `.primary` file
+ * change:
+ * - `gained-primary`: the current instance has become the primary
+ * - `lost-primary`: the current instance is no longer the primary
+ * - `primary-changed`: the current instance is (and was) a replica, but the
+ *   primary hostname is different
  */
-export const TXID_NUM_COOKIE_NAME = 'txnum'
+export type PrimaryChangeEvent = {
+	type: 'gained-primary' | 'lost-primary' | 'primary-changed'
+	/** the instance info before the change */
+	previous: InstanceInfo
+	/** the instance info after the change */
+	current: InstanceInfo
+}
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+export type PrimaryChangeListener = (event: PrimaryChangeEvent) => void
 
-type WaitForUpToDateTxNumberOptions = {
-	/**
-	 * the directory where the .primary file is stored. Defaults to
-	 * process.env.LITEFS_DIR. This should be what you set your fuse.dir config to
-	 * in the litefs.yml config.
-	 */
-	litefsDir?: LiteFSDir
+type WatchInstanceInfoOptions = {
 	/**
-	 * The filename of your sqlite database. Defaults to
-	 * process.env.DATABASE_FILENAME. This is used to determine the location of
-	 * the "-pos" file which LiteFS uses to track the transaction number.
+	 * The amount of time (in milliseconds) between re-reading the .primary file
+	 * when no file system event has been received. Defaults to 1000.
 	 */
-	databaseFilename?: DatabaseFilename
+	intervalMs?: number
+}
+
+export type InstanceInfoWatcher = {
 	/**
-	 * The maximum amount of time (in milliseconds) to wait for the transaction
-	 * number to catch up to the client's transaction number. Defaults to 500.
+	 * The most recently read instance info. This never touches the file system
+	 * so it's safe to call in hot paths.
 	 */
-	timeoutMs?: number
+	getInstanceInfo: () => InstanceInfo
 	/**
-	 * The amount of time (in milliseconds) to wait between checking the
-	 * transaction number. Defaults to 30.
+	 * Subscribes to primary changes.
+	 * @returns {() => void} a function to unsubscribe the listener
 	 */
-	intervalMs?: number
+	onPrimaryChange: (listener: PrimaryChangeListener) => () => void
+	/** Stops watching (once every watcher for this litefsDir is closed) */
+	close: () => void
+}
+
+type PrimaryWatcher = {
+	info: InstanceInfo
+	listeners: Set<PrimaryChangeListener>
+	refCount: number
+	intervalMs: number
+	close: () => void
+}
+
+// one watcher per LiteFS directory, shared by every watchInstanceInfo handle
+const primaryWatchers = new Map<string, PrimaryWatcher>()
+
+function getPrimaryChangeType(
+	previous: InstanceInfo,
+	current: InstanceInfo,
+): PrimaryChangeEvent['type'] | null {
+	if (previous.primaryInstance === current.primaryInstance) return null
+	if (!previous.currentIsPrimary && current.currentIsPrimary) {
+		return 'gained-primary'
+	}
+	if (previous.currentIsPrimary && !current.currentIsPrimary) {
+		return 'lost-primary'
+	}
+	return 'primary-changed'
+}
+
+function createPrimaryWatcher(
+	litefsDir: string,
+	intervalMs: number,
+): PrimaryWatcher {
+	let fsWatcher: fs.FSWatcher | null = null
+	let pollTimeout: ReturnType<typeof setTimeout> | null = null
+	let reading = false
+	let readAgain = false
+	let closed = false
+
+	const watcher: PrimaryWatcher = {
+		info: getInstanceInfoSync(litefsDir),
+		listeners: new Set(),
+		refCount: 0,
+		intervalMs,
+		close() {
+			closed = true
+			if (pollTimeout) clearTimeout(pollTimeout)
+			pollTimeout = null
+			fsWatcher?.close()
+			fsWatcher = null
+		},
+	}
+
+	async function check() {
+		if (reading) {
+			readAgain = true
+			return
+		}
+		reading = true
+		try {
+			do {
+				readAgain = false
+				const current = await getInstanceInfo(litefsDir)
+				if (closed) return
+				const previous = watcher.info
+				watcher.info = current
+				const type = getPrimaryChangeType(previous, current)
+				if (type) {
+					for (const listener of watcher.listeners) {
+						try {
+							listener({ type, previous, current })
+						} catch (error: unknown) {
+							getLogger().error(
+								{ code: 'listener-failed', error },
+								'An onPrimaryChange listener threw an error',
+							)
+						}
+					}
+				}
+			} while (readAgain)
+		} finally {
+			reading = false
+			// a failed check must not stop the polling
+			schedulePoll()
+		}
+	}
+
+	function schedulePoll() {
+		if (pollTimeout) clearTimeout(pollTimeout)
+		if (closed) return
+		pollTimeout = setTimeout(check, watcher.intervalMs)
+		pollTimeout.unref()
+	}
+
+	try {
+		fsWatcher = fs.watch(
+			litefsDir,
+			{ persistent: false },
+			(_eventType, filename) => {
+				if (!filename || filename === '.primary') void check()
+			},
+		)
+		fsWatcher.on('error', () => {
+			fsWatcher?.close()
+			fsWatcher = null
+		})
+	} catch {
+		// fs.watch is not supported on every file system, polling will cover it
+		fsWatcher = null
+	}
+	schedulePoll()
+
+	return watcher
 }
 
 /**
- * @param {number} clientTxNumber - the transaction number that the client is
- * expecting
- * @param {WaitForUpToDateTxNumberOptions} [options]
+ * Watches the `LITEFS_DIR/.primary` file and keeps an up-to-date cached copy
+ * of the instance info. This is useful with the consul lease strategy where the
+ * primary may change at any time.
  *
- * @returns {Promise<boolean>} - resolves to true if it's safe to continue or
- * false if the request should be replayed on the primary
+ * Watchers for the same litefsDir share a single file watcher. Make sure to
+ * call `close` when you no longer need it.
+ *
+ * @param {LiteFSDir} [litefsDir=process.env.LITEFS_DIR] - the directory where
+ * the .primary file is stored. Defaults to process.env.LITEFS_DIR. This should
+ * be what you set your fuse.dir config to in the litefs.yml config.
+ * @param {WatchInstanceInfoOptions} [options]
+ *
+ * @example
+ * import { watchInstanceInfo } from "litefs-js";
+ * ...
+ * const instanceInfo = watchInstanceInfo()
+ * instanceInfo.onPrimaryChange(event => {
+ * 	if (event.type === 'gained-primary') startBackgroundJobs()
+ * 	if (event.type === 'lost-primary') stopBackgroundJobs()
+ * })
+ * ...
+ * const { currentIsPrimary } = instanceInfo.getInstanceInfo()
+ * ...
+ *
+ * @returns {InstanceInfoWatcher} the watcher
  */
-export async function waitForUpToDateTxNumber(
-	clientTxNumber: number,
+export function watchInstanceInfo(
+	litefsDir: LiteFSDir = process.env.LITEFS_DIR,
+	{ intervalMs = 1000 }: WatchInstanceInfoOptions = {},
+): InstanceInfoWatcher {
+	if (!litefsDir) {
+		throw new Error(
+			'litefs-js: LITEFS_DIR is not defined. You must either set the LITEFS_DIR environment variable or pass the litefsDir argument to watchInstanceInfo',
+		)
+	}
+	const dir = litefsDir
+	let watcher = primaryWatchers.get(dir)
+	if (!watcher) {
+		watcher = createPrimaryWatcher(dir, intervalMs)
+		primaryWatchers.set(dir, watcher)
+	}
+	const primaryWatcher = watcher
+	primaryWatcher.intervalMs = Math.min(primaryWatcher.intervalMs, intervalMs)
+	primaryWatcher.refCount++
+
+	const ownListeners = new Set<PrimaryChangeListener>()
+	let closed = false
+
+	return {
+		getInstanceInfo: () => primaryWatcher.info,
+		onPrimaryChange(listener) {
+			// wrap the listener so the same function can be subscribed twice
+			const ownListener: PrimaryChangeListener = event => listener(event)
+			ownListeners.add(ownListener)
+			primaryWatcher.listeners.add(ownListener)
+			return () => {
+				ownListeners.delete(ownListener)
+				primaryWatcher.listeners.delete(ownListener)
+			}
+		},
+		close() {
+			if (closed) return
+			closed = true
+			for (const listener of ownListeners) {
+				primaryWatcher.listeners.delete(listener)
+			}
+			ownListeners.clear()
+			primaryWatcher.refCount--
+			if (primaryWatcher.refCount > 0) return
+			primaryWatcher.close()
+			if (primaryWatchers.get(dir) === primaryWatcher) {
+				primaryWatchers.delete(dir)
+			}
+		},
+	}
+}
+
+/**
+ * Subscribes to changes of the primary instance. This is a shorthand for
+ * `watchInstanceInfo(litefsDir).onPrimaryChange(listener)` which also stops
+ * the watcher when you unsubscribe.
+ *
+ * @param {PrimaryChangeListener} listener - called with a `PrimaryChangeEvent`
+ * whenever the current instance gains or loses primary status or the primary
+ * hostname changes.
+ * @param {LiteFSDir} [litefsDir=process.env.LITEFS_DIR] - the directory where
+ * the .primary file is stored. Defaults to process.env.LITEFS_DIR. This should
+ * be what you set your fuse.dir config to in the litefs.yml config.
+ *
+ * @returns {() => void} a function to unsubscribe the listener
+ */
+export function onPrimaryChange(
+	listener: PrimaryChangeListener,
+	litefsDir: LiteFSDir = process.env.LITEFS_DIR,
+): () => void {
+	const watcher = watchInstanceInfo(litefsDir)
+	watcher.onPrimaryChange(listener)
+	return watcher.close
+}
+
+/**
+ * The name of the cookie that should be set in the client to identify the
+ * transaction number
+ */
+export const TXID_NUM_COOKIE_NAME = 'txnum'
+
+/**
+ * The name of the header that carries the transaction number for clients that
+ * don't keep cookies (API clients, mobile apps, etc.)
+ */
+export const TXID_NUM_HEADER_NAME = 'LiteFS-Tx'
+
+/**
+ * Where the transaction number is exchanged with the client: the txnum cookie,
+ * the `LiteFS-Tx` header, or both.
+ */
+export type TxTransport = 'cookie' | 'header' | 'both'
+
+type WaitForUpToDateTxNumberOptions = LoggerOptions &
+	InstrumentationOptions & {
+		/**
+		 * the directory where the .primary file is stored. Defaults to
+		 * process.env.LITEFS_DIR. This should be what you set your fuse.dir config to
+		 * in the litefs.yml config.
+		 */
+		litefsDir?: LiteFSDir
+		/**
+		 * The filename of your sqlite database. Defaults to
+		 * process.env.DATABASE_FILENAME. This is used to determine the location of
+		 * the "-pos" file which LiteFS uses to track the transaction number.
+		 */
+		databaseFilename?: DatabaseFilename
+		/**
+		 * The maximum amount of time (in milliseconds) to wait for the transaction
+		 * number to catch up to the client's transaction number. Defaults to 500.
+		 */
+		timeoutMs?: number
+		/**
+		 * The amount of time (in milliseconds) to wait between checking the
+		 * transaction number when no file system event has been received. Waiters
+		 * are normally resolved as soon as the "-pos" file changes, so this is only
+		 * a fallback for file systems that don't emit change events. Defaults to 30.
+		 */
+		intervalMs?: number
+	}
+
+type WaitResult = 'up-to-date' | 'diverged' | 'timeout'
+
+type TxWaiter = {
+	clientPosition: ClientPosition
+	intervalMs: number
+	resolve: (result: WaitResult) => void
+}
+
+type TxAdvanceSubscription = {
+	intervalMs: number
+	listener: (event: { from: Position | null; to: Position }) => void
+}
+
+type TxWatcher = {
+	waiters: Set<TxWaiter>
+	subscriptions: Set<TxAdvanceSubscription>
+	/** the last position read, only kept up to date while there are subscriptions */
+	position: Position | null
+	schedulePoll: () => void
+	close: () => void
+}
+
+// one watcher per "-pos" file, shared by every pending waiter and every
+// onTxAdvance subscription for that database
+const txWatchers = new Map<string, TxWatcher>()
+
+function isSamePosition(a: Position | null, b: Position | null): boolean {
+	return a?.txid === b?.txid && a?.checksum === b?.checksum
+}
+
+function createTxWatcher(posFilePath: string): TxWatcher {
+	const waiters = new Set<TxWaiter>()
+	const subscriptions = new Set<TxAdvanceSubscription>()
+	let fsWatcher: fs.FSWatcher | null = null
+	let pollTimeout: ReturnType<typeof setTimeout> | null = null
+	let reading = false
+	let readAgain = false
+
+	async function check() {
+		// coalesce events that come in while we're reading into a single re-read
+		if (reading) {
+			readAgain = true
+			return
+		}
+		reading = true
+		try {
+			do {
+				readAgain = false
+				// read errors are logged by the waiters' initial read, not on every poll
+				const position = await readPosition(posFilePath, silentLogger)
+				for (const waiter of waiters) {
+					const result = getWaitResult(position, waiter.clientPosition)
+					if (result) waiter.resolve(result)
+				}
+				// an unknown position (the file is being replaced) is not a move
+				const from = watcher.position
+				if (position && !isSamePosition(from, position)) {
+					watcher.position = position
+					for (const { listener } of subscriptions) {
+						try {
+							listener({ from, to: position })
+						} catch (error: unknown) {
+							getLogger().error(
+								{ code: 'listener-failed', error },
+								'An onTxAdvance listener threw an error',
+							)
+						}
+					}
+				}
+			} while (readAgain && (waiters.size || subscriptions.size))
+		} finally {
+			reading = false
+			// a failed check must not stop the polling
+			schedulePoll()
+		}
+	}
+
+	function schedulePoll() {
+		if (pollTimeout) clearTimeout(pollTimeout)
+		pollTimeout = null
+		if (!waiters.size && !subscriptions.size) return
+		const intervalMs = Math.min(
+			...Array.from(waiters, w => w.intervalMs),
+			...Array.from(subscriptions, s => s.intervalMs),
+		)
+		pollTimeout = setTimeout(check, intervalMs)
+		// subscriptions are long-lived, they shouldn't keep the process alive
+		if (!waiters.size) pollTimeout.unref()
+	}
+
+	try {
+		const posFilename = path.basename(posFilePath)
+		fsWatcher = fs.watch(
+			path.dirname(posFilePath),
+			{ persistent: false },
+			(_eventType, filename) => {
+				if (!filename || filename === posFilename) void check()
+			},
+		)
+		fsWatcher.on('error', () => {
+			fsWatcher?.close()
+			fsWatcher = null
+		})
+	} catch {
+		// fs.watch is not supported on every file system, polling will cover it
+		fsWatcher = null
+	}
+
+	const watcher: TxWatcher = {
+		waiters,
+		subscriptions,
+		position: null,
+		schedulePoll,
+		close() {
+			if (pollTimeout) clearTimeout(pollTimeout)
+			pollTimeout = null
+			fsWatcher?.close()
+			fsWatcher = null
+		},
+	}
+	return watcher
+}
+
+function getTxWatcher(posFilePath: string): TxWatcher {
+	let watcher = txWatchers.get(posFilePath)
+	if (!watcher) {
+		watcher = createTxWatcher(posFilePath)
+		txWatchers.set(posFilePath, watcher)
+	}
+	return watcher
+}
+
+function releaseTxWatcher(posFilePath: string, watcher: TxWatcher) {
+	if (watcher.waiters.size || watcher.subscriptions.size) return
+	watcher.close()
+	if (txWatchers.get(posFilePath) === watcher) {
+		txWatchers.delete(posFilePath)
+	}
+}
+
+function addTxWaiter(posFilePath: string, waiter: TxWaiter) {
+	const watcher = getTxWatcher(posFilePath)
+	watcher.waiters.add(waiter)
+	watcher.schedulePoll()
+	return function removeTxWaiter() {
+		if (!watcher.waiters.delete(waiter)) return
+		releaseTxWatcher(posFilePath, watcher)
+	}
+}
+
+function addTxAdvanceSubscription(
+	posFilePath: string,
+	subscription: TxAdvanceSubscription,
+) {
+	const watcher = getTxWatcher(posFilePath)
+	// the position isn't tracked without subscriptions, so it may be stale
+	if (!watcher.subscriptions.size) {
+		watcher.position = readPositionSync(posFilePath, silentLogger)
+	}
+	watcher.subscriptions.add(subscription)
+	watcher.schedulePoll()
+	return function removeTxAdvanceSubscription() {
+		if (!watcher.subscriptions.delete(subscription)) return
+		releaseTxWatcher(posFilePath, watcher)
+	}
+}
+
+/**
+ * Resolves the waiter once the local position reached the client's position,
+ * or as soon as we know it never will because the histories diverged.
+ */
+function getWaitResult(
+	position: Position | null,
+	clientPosition: ClientPosition,
+): Exclude<WaitResult, 'timeout'> | null {
+	// an unknown position is treated like an empty database
+	const comparison = comparePositions(
+		position ?? { txid: 0n, checksum: '' },
+		clientPosition,
+	)
+	if (comparison === 'behind') return null
+	return comparison === 'diverged' ? 'diverged' : 'up-to-date'
+}
+
+async function waitForPosition(
+	clientPosition: ClientPosition,
 	{
-		litefsDir,
-		databaseFilename,
+		litefsDir = process.env.LITEFS_DIR,
+		databaseFilename = process.env.DATABASE_FILENAME,
 		timeoutMs = 500,
 		intervalMs = 30,
-	}: WaitForUpToDateTxNumberOptions = {},
-): Promise<boolean> {
-	let currentTxNumber = await getTxNumber(litefsDir, databaseFilename)
-	if (currentTxNumber >= clientTxNumber) return true
+		logger,
+		instrumentation,
+	}: WaitForUpToDateTxNumberOptions,
+): Promise<WaitResult> {
+	const posFilePath = getPosFilePath(litefsDir, databaseFilename)
+	const hooks = getInstrumentation({ instrumentation })
+	const clientTx = Number(clientPosition.txid)
+	return traced(
+		hooks,
+		'litefs.wait_for_tx_number',
+		{ databaseFilename, clientTx, timeoutMs },
+		async () => {
+			const txWaitEvent = {
+				databaseFilename: getPosDatabaseFilename(posFilePath),
+				clientTx,
+			}
+			const initialResult = getWaitResult(
+				await readPosition(posFilePath, getLogger({ logger })),
+				clientPosition,
+			)
 
-	const stopTime = Date.now() + timeoutMs
+			const start = Date.now()
+			const result =
+				initialResult ??
+				(await new Promise<WaitResult>(resolve => {
+					const timeout = setTimeout(() => done('timeout'), timeoutMs)
+					const removeTxWaiter = addTxWaiter(posFilePath, {
+						clientPosition,
+						intervalMs,
+						resolve: done,
+					})
+					function done(result: WaitResult) {
+						clearTimeout(timeout)
+						removeTxWaiter()
+						resolve(result)
+					}
+				}))
+			const waitedMs = initialResult ? 0 : Date.now() - start
+			hooks.txWait?.({
+				...txWaitEvent,
+				waitedMs,
+				timedOut: result === 'timeout',
+				diverged: result === 'diverged',
+			})
 
-	do {
-		await sleep(intervalMs)
-		currentTxNumber = await getTxNumber()
-	} while (currentTxNumber >= clientTxNumber && Date.now() < stopTime)
+			if (result !== 'up-to-date') {
+				const position = await readPosition(posFilePath, silentLogger)
+				const fields = {
+					databaseFilename,
+					clientTx,
+					currentTx: position ? Number(position.txid) : undefined,
+					waitedMs,
+				}
+				if (result === 'timeout') {
+					getLogger({ logger }).warn(
+						{ code: 'tx-wait-timeout', ...fields },
+						'Timed out waiting for the tx number to catch up',
+					)
+				} else {
+					getLogger({ logger }).warn(
+						{ code: 'position-diverged', ...fields },
+						"The local position doesn't match the client's (the database was restored or the txid was reset)",
+					)
+				}
+			}
+			return result
+		},
+	)
+}
 
-	if (currentTxNumber >= clientTxNumber) {
-		return true
-	} else {
-		console.error(`Timed out waiting for tx number 🚨`)
-		return false
-	}
+/**
+ * Waits for the local transaction number to catch up to the client's
+ * transaction number. All pending calls for the same database share a single
+ * watcher on the "-pos" file, so each call is resolved as soon as the position
+ * reaches its transaction number.
+ *
+ * If a `checksum` is given and the local position has the same transaction id
+ * but a different checksum, the database was restored or the txid was reset,
+ * so this resolves to false right away instead of waiting.
+ *
+ * @param {number | bigint} clientTxNumber - the transaction number that the
+ * client is expecting
+ * @param {WaitForUpToDateTxNumberOptions & { checksum?: string }} [options]
+ *
+ * @returns {Promise<boolean>} - resolves to true if it's safe to continue or
+ * false if the request should be replayed on the primary
+ */
+export async function waitForUpToDateTxNumber(
+	clientTxNumber: number | bigint,
+	{
+		checksum,
+		...options
+	}: WaitForUpToDateTxNumberOptions & { checksum?: string } = {},
+): Promise<boolean> {
+	const result = await waitForPosition(
+		{ txid: BigInt(clientTxNumber), checksum },
+		options,
+	)
+	return result === 'up-to-date'
 }
 
 /**
@@ -183,12 +830,30 @@ export async function waitForUpToDateTxNumber(
  * process.env.DATABASE_FILENAME. This is used to determine the location of
  * the "-pos" file which LiteFS uses to track the transaction number.
  *
- * @returns {Promise<number>} the current transaction number
+ * @param {LoggerOptions & InstrumentationOptions} [options]
+ *
+ * @returns {Promise<number>} the current transaction number (0 if the "-pos"
+ * file can't be read). Transaction ids above Number.MAX_SAFE_INTEGER lose
+ * precision, use `getPosition` if you need the exact value or the checksum.
  */
 export async function getTxNumber(
 	litefsDir: LiteFSDir = process.env.LITEFS_DIR,
 	databaseFilename: DatabaseFilename = process.env.DATABASE_FILENAME,
+	options?: LoggerOptions & InstrumentationOptions,
 ): Promise<number> {
+	const posFilePath = getPosFilePath(litefsDir, databaseFilename)
+	return traced(
+		getInstrumentation(options),
+		'litefs.get_tx_number',
+		{ databaseFilename },
+		() => readTxNumber(posFilePath, getLogger(options)),
+	)
+}
+
+function getPosFilePath(
+	litefsDir: LiteFSDir,
+	databaseFilename: DatabaseFilename,
+): string {
 	if (!litefsDir) {
 		throw new Error(
 			'litefs-js: LITEFS_DIR is not defined. You must either set the LITEFS_DIR environment variable or pass the litefsDir argument to getTxNumber',
@@ -199,122 +864,1293 @@ export async function getTxNumber(
 			'litefs-js: DATABASE_FILENAME is not defined. You must either set the DATABASE_FILENAME environment variable or pass the databaseFilename argument to getTxNumber',
 		)
 	}
-	try {
-		const dbPos = await fs.promises.readFile(
-			path.join(litefsDir, `${databaseFilename}-pos`),
-			'utf-8',
-		)
-		return parseInt(dbPos.trim().split('/')[0], 16)
-	} catch (error: unknown) {
-		console.error(
-			`Error reading ${databaseFilename}-pos (will default to "0"):`,
-			error,
-		)
-		return 0
-	}
+	return path.join(litefsDir, `${databaseFilename}-pos`)
+}
+
+function getPosDatabaseFilename(posFilePath: string): string {
+	return path.basename(posFilePath).replace(/-pos$/, '')
 }
 
 /**
- * Creates a seralized cookie header for the txnum cookie which you should use
- * with a 'Set-Cookie' header to set the cookie in the client.
- *
- * @param {string} value - the value of the cookie (get this from `await getTxNumber()`).
- * @param {CookieSerializeOptions} [options] - options to pass to cookie.serialize
- * to override the defaults of path: "/", httpOnly: true, sameSite: "lax",
- * secure: true.
- *
- * @returns {number} the current transaction number
+ * The replication position of a database, read from its "-pos" file.
  */
-export function getTxSetCookieHeader(
-	value: number,
-	options?: CookieSerializeOptions,
-): string {
-	return cookie.serialize(TXID_NUM_COOKIE_NAME, String(value), {
-		path: '/',
-		httpOnly: true,
-		sameSite: 'lax',
-		secure: true,
-		...options,
-	})
+export type Position = {
+	/** the id of the last transaction applied to the database */
+	txid: bigint
+	/** the checksum of the database after that transaction (lowercase hex) */
+	checksum: string
 }
 
-type ConsistencyResult =
-	| { type: 'ok' }
-	| { type: 'delete-cookie'; setCookieHeader: string }
-	| { type: 'replay'; flyReplayHeader: string; instance: string }
 /**
- * Ensures that the transactional consistency cookie is set on the response object.
- * If the current instance is the primary instance, then the cookie will be deleted.
- * If the current instance is not the primary instance, then the cookie will be
- * deleted if the transaction number in the cookie is up to date. If the transaction
- * number in the cookie is not up to date, then the response will be replayed from
- * the primary instance.
- *
- * @param {string | null} cookieHeader - the value of the 'Cookie' header from the
- * request.
+ * A position the client has seen. The checksum is missing in transaction
+ * number cookies set before positions were tracked.
+ */
+type ClientPosition = { txid: bigint; checksum?: string }
+
+/**
+ * Compares the current position of a database with the position the client
+ * has seen.
  *
- *  @example
- *  import { checkCookieForTransactionalConsistency } from "litefs-js/http";
- *  ...
- *  const status = await checkCookieForTransactionalConsistency(req, res);
- *  if (status === 'replay') {
- *  	res.setHeader('fly-replay', `instance=${primaryInstance}`)
- *  	res.writeHead(409)
- *  	res.end()
- *  	return true
- *  } else if (status === 'delete-cookie') {
- *  	appendHeader(res, 'Set-Cookie', getTxSetCookieHeader(0, { maxAge: 0 }))
- *  ...
- *  } else if (status === 'ok') {
- *  	// continue with request
- *  }
- *  ...
+ * @param {Position} current - the local position (see `getPosition`)
+ * @param {{ txid: bigint; checksum?: string }} expected - the position the
+ * client has seen
  *
- * @returns {Promise<ConsistencyResult>} - resolves to 'ok' if the request should continue,
- * 'delete-cookie' if the cookie should be deleted, or 'replay' if the request
- * should be replayed on the primary instance.
+ * @returns {'behind' | 'equal' | 'ahead' | 'diverged'} - 'diverged' if both
+ * are at the same transaction id with a different checksum, which means the
+ * database was restored or the txid was reset after a failover. If the
+ * checksum of `expected` is missing, positions at the same txid are equal.
  */
-export async function checkCookieForTransactionalConsistency(
-	cookieHeader: string | null | undefined,
-): Promise<ConsistencyResult> {
-	const cookies = cookieHeader ? cookie.parse(cookieHeader) : {}
-
-	const txCookieValue = cookies[TXID_NUM_COOKIE_NAME]
-	const txCookieNumber = Number(txCookieValue)
-	const isValidTxNumber = Number.isFinite(txCookieNumber)
-	const deleteCookieHeader = () =>
-		getTxSetCookieHeader(0, { expires: new Date(0) })
-	if (!isValidTxNumber) {
-		if (txCookieValue) {
-			console.error(
-				`Invalid tx number in cookie: ${txCookieValue}. Deleting cookie.`,
-			)
-			return { type: 'delete-cookie', setCookieHeader: deleteCookieHeader() }
-		}
-		return { type: 'ok' }
+export function comparePositions(
+	current: Position,
+	expected: ClientPosition,
+): 'behind' | 'equal' | 'ahead' | 'diverged' {
+	if (current.txid < expected.txid) return 'behind'
+	if (current.txid > expected.txid) return 'ahead'
+	if (expected.checksum && expected.checksum !== current.checksum) {
+		return 'diverged'
 	}
+	return 'equal'
+}
 
-	const { primaryInstance, currentIsPrimary } = await getInstanceInfo()
-	const currentTxNumber = await getTxNumber()
-	if (currentIsPrimary) {
-		if (txCookieNumber > currentTxNumber) {
-			console.error(
-				`User somehow had a newer tx number (${txCookieNumber}) than the primary instance (${currentTxNumber}). Deleting cookie.`,
-			)
-		}
-		return { type: 'delete-cookie', setCookieHeader: deleteCookieHeader() }
-	}
+function parsePosition(value: string): Position | null {
+	const match = /^([0-9a-f]+)\/([0-9a-f]+)$/i.exec(value.trim())
+	if (!match) return null
+	return { txid: BigInt(`0x${match[1]}`), checksum: match[2].toLowerCase() }
+}
 
-	const txNumberIsUpToDate = await waitForUpToDateTxNumber(txCookieNumber)
-	if (txNumberIsUpToDate) {
-		return { type: 'delete-cookie', setCookieHeader: deleteCookieHeader() }
+function logPosFileError(
+	posFilePath: string,
+	error: unknown,
+	logger: Logger,
+): void {
+	const posFilename = path.basename(posFilePath)
+	const databaseFilename = getPosDatabaseFilename(posFilePath)
+	if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+		logger.debug(
+			{ code: 'pos-file-missing', databaseFilename },
+			`${posFilename} does not exist yet (the position is unknown)`,
+		)
 	} else {
-		return {
-			type: 'replay',
-			flyReplayHeader: `instance=${primaryInstance}`,
-			instance: primaryInstance,
-		}
+		logger.error(
+			{ code: 'pos-file-read-failed', databaseFilename, error },
+			`Error reading ${posFilename} (the position is unknown)`,
+		)
+	}
+}
+
+function parsePosFile(
+	posFilePath: string,
+	dbPos: string,
+	logger: Logger,
+): Position | null {
+	const position = parsePosition(dbPos)
+	if (!position) {
+		logger.error(
+			{
+				code: 'pos-file-read-failed',
+				databaseFilename: getPosDatabaseFilename(posFilePath),
+				value: dbPos,
+			},
+			`Invalid position in ${path.basename(posFilePath)} (the position is unknown)`,
+		)
+	}
+	return position
+}
+
+async function readPosition(
+	posFilePath: string,
+	logger: Logger,
+): Promise<Position | null> {
+	let dbPos
+	try {
+		dbPos = await fs.promises.readFile(posFilePath, 'utf-8')
+	} catch (error: unknown) {
+		logPosFileError(posFilePath, error, logger)
+		return null
+	}
+	return parsePosFile(posFilePath, dbPos, logger)
+}
+
+function readPositionSync(
+	posFilePath: string,
+	logger: Logger,
+): Position | null {
+	let dbPos
+	try {
+		dbPos = fs.readFileSync(posFilePath, 'utf-8')
+	} catch (error: unknown) {
+		logPosFileError(posFilePath, error, logger)
+		return null
+	}
+	return parsePosFile(posFilePath, dbPos, logger)
+}
+
+async function readTxNumber(
+	posFilePath: string,
+	logger: Logger,
+): Promise<number> {
+	const position = await readPosition(posFilePath, logger)
+	return position ? Number(position.txid) : 0
+}
+
+/**
+ * Reads the full replication position of a database: the transaction id
+ * (without losing precision) and the checksum.
+ *
+ * @param {LiteFSDir} [litefsDir=process.env.LITEFS_DIR] - the directory where
+ * the .primary file is stored.
+ * @param {DatabaseFilename} [databaseFilename=process.env.DATABASE_FILENAME]
+ * - The filename of your sqlite database.
+ * @param {LoggerOptions & InstrumentationOptions} [options]
+ *
+ * @returns {Promise<Position | null>} the position, or null if it's unknown
+ * (the "-pos" file doesn't exist yet or can't be read)
+ */
+export async function getPosition(
+	litefsDir: LiteFSDir = process.env.LITEFS_DIR,
+	databaseFilename: DatabaseFilename = process.env.DATABASE_FILENAME,
+	options?: LoggerOptions & InstrumentationOptions,
+): Promise<Position | null> {
+	const posFilePath = getPosFilePath(litefsDir, databaseFilename)
+	return traced(
+		getInstrumentation(options),
+		'litefs.get_position',
+		{ databaseFilename },
+		() => readPosition(posFilePath, getLogger(options)),
+	)
+}
+
+/**
+ * How the local position of a database moved (see `onTxAdvance`).
+ */
+export type TxAdvanceEvent = {
+	databaseFilename: string
+	/** the previous position, null if it was unknown */
+	from: Position | null
+	/** the new position */
+	to: Position
+}
+
+export type TxAdvanceListener = (event: TxAdvanceEvent) => void
+
+export type OnTxAdvanceOptions = {
+	/**
+	 * the directory where the .primary file is stored. Defaults to
+	 * process.env.LITEFS_DIR.
+	 */
+	litefsDir?: LiteFSDir
+	/**
+	 * The filename of the database to watch. Defaults to
+	 * process.env.DATABASE_FILENAME.
+	 */
+	databaseFilename?: DatabaseFilename
+	/**
+	 * The amount of time (in milliseconds) between re-reading the "-pos" file
+	 * when no file system event has been received. Defaults to 100.
+	 */
+	intervalMs?: number
+}
+
+/**
+ * Subscribes to the local position of a database: the listener is called with
+ * `{ from, to }` whenever the "-pos" file changes, which on replicas means new
+ * transactions have been replicated. The position usually advances, but it
+ * can also move back or diverge (for example when the database is restored).
+ * Subscriptions to the same database share a single file watcher.
+ *
+ * @param {TxAdvanceListener} listener - called with a `TxAdvanceEvent`
+ * whenever the position moves
+ * @param {OnTxAdvanceOptions} [options]
+ * @example
+ * import { onTxAdvance } from "litefs-js";
+ * ...
+ * const unsubscribe = onTxAdvance(({ to }) => {
+ * 	renderedPages.clear()
+ * 	console.log(`now at transaction ${to.txid}`)
+ * })
+ * ...
+ * @returns {() => void} a function to unsubscribe the listener
+ */
+export function onTxAdvance(
+	listener: TxAdvanceListener,
+	{
+		litefsDir = process.env.LITEFS_DIR,
+		databaseFilename = process.env.DATABASE_FILENAME,
+		intervalMs = 100,
+	}: OnTxAdvanceOptions = {},
+): () => void {
+	const posFilePath = getPosFilePath(litefsDir, databaseFilename)
+	const filename = getPosDatabaseFilename(posFilePath)
+	return addTxAdvanceSubscription(posFilePath, {
+		intervalMs,
+		listener: ({ from, to }) =>
+			listener({ databaseFilename: filename, from, to }),
+	})
+}
+
+/**
+ * A cache of values computed from the database. Every entry is tagged with
+ * the position it was computed at and is only returned while the local
+ * position hasn't moved (see `createTxCache`).
+ */
+export type TxCache<Value> = {
+	/** the value cached for the key, undefined if it's missing or stale */
+	get: (key: string) => Value | undefined
+	/** caches the value, tagged with the current position */
+	set: (key: string, value: Value) => void
+	/**
+	 * Returns the value cached for the key, or computes and caches it. The
+	 * value is tagged with the position from before `compute` is called, so
+	 * it's not cached if the position moves while it's being computed.
+	 */
+	getOrSet: (
+		key: string,
+		compute: () => Value | Promise<Value>,
+	) => Promise<Value>
+	delete: (key: string) => void
+	clear: () => void
+	/** the position the cached values are valid for, null if it's unknown */
+	getPosition: () => Position | null
+	/** stops watching the position (the cache keeps working until then) */
+	close: () => void
+}
+
+/**
+ * Creates an in-memory cache whose entries are dropped as soon as the local
+ * position of the database moves (see `onTxAdvance`), so replicas can cache
+ * rendered pages or lookups without serving them once newer transactions have
+ * been replicated. Changes are noticed within `intervalMs` on file systems
+ * that don't emit change events.
+ *
+ * @param {OnTxAdvanceOptions} [options]
+ * @example
+ * import { createTxCache } from "litefs-js";
+ * ...
+ * const userCache = createTxCache<User>()
+ * ...
+ * const user = await userCache.getOrSet(userId, () => db.getUser(userId))
+ * ...
+ * @returns {TxCache<Value>} the cache
+ */
+export function createTxCache<Value>(
+	options: OnTxAdvanceOptions = {},
+): TxCache<Value> {
+	const {
+		litefsDir = process.env.LITEFS_DIR,
+		databaseFilename = process.env.DATABASE_FILENAME,
+	} = options
+	const entries = new Map<string, { position: Position | null; value: Value }>()
+	let position = readPositionSync(
+		getPosFilePath(litefsDir, databaseFilename),
+		silentLogger,
+	)
+	const unsubscribe = onTxAdvance(({ to }) => {
+		position = to
+		entries.clear()
+	}, options)
+
+	function get(key: string) {
+		const entry = entries.get(key)
+		if (!entry) return undefined
+		if (isSamePosition(entry.position, position)) return entry.value
+		entries.delete(key)
+		return undefined
+	}
+
+	return {
+		get,
+		set(key, value) {
+			entries.set(key, { position, value })
+		},
+		async getOrSet(key, compute) {
+			const entry = entries.get(key)
+			if (entry && isSamePosition(entry.position, position)) {
+				return entry.value
+			}
+			const computedAt = position
+			const value = await compute()
+			if (isSamePosition(computedAt, position)) {
+				entries.set(key, { position: computedAt, value })
+			}
+			return value
+		},
+		delete(key) {
+			entries.delete(key)
+		},
+		clear() {
+			entries.clear()
+		},
+		getPosition: () => position,
+		close: unsubscribe,
+	}
+}
+
+/**
+ * The transaction number of each database, keyed by database filename.
+ */
+export type TxNumbers = Record<string, number>
+
+export type DatabasesOptions = {
+	/**
+	 * the directory where the .primary file is stored. Defaults to
+	 * process.env.LITEFS_DIR. This should be what you set your fuse.dir config to
+	 * in the litefs.yml config.
+	 */
+	litefsDir?: LiteFSDir
+	/**
+	 * The filename of your sqlite database. Defaults to
+	 * process.env.DATABASE_FILENAME. Ignored if `databaseFilenames` is given.
+	 */
+	databaseFilename?: DatabaseFilename
+	/**
+	 * The filenames of all the sqlite databases replicated by LiteFS that the
+	 * transactional consistency cookie should track. Defaults to
+	 * [process.env.DATABASE_FILENAME]. When this is set, the cookie carries a
+	 * transaction number per database, and a cookie that is a bare number is
+	 * considered to be the transaction number of the first database.
+	 */
+	databaseFilenames?: Array<string>
+}
+
+/**
+ * @param {DatabasesOptions & LoggerOptions & InstrumentationOptions} [options]
+ *
+ * @returns {Promise<TxNumbers>} the current transaction number of each
+ * database
+ */
+export async function getTxNumbers({
+	litefsDir,
+	databaseFilename,
+	databaseFilenames,
+	logger,
+	instrumentation,
+}: DatabasesOptions &
+	LoggerOptions &
+	InstrumentationOptions = {}): Promise<TxNumbers> {
+	const filenames = getDatabaseFilenames(databaseFilenames, databaseFilename)
+	const txNumbers = await Promise.all(
+		filenames.map(databaseFilename =>
+			getTxNumber(litefsDir, databaseFilename, { logger, instrumentation }),
+		),
+	)
+	return Object.fromEntries(
+		filenames.map((databaseFilename, i) => [databaseFilename, txNumbers[i]]),
+	)
+}
+
+function getDatabaseFilenames(
+	databaseFilenames: Array<string> | undefined,
+	databaseFilename: DatabaseFilename = process.env.DATABASE_FILENAME,
+): Array<string> {
+	if (databaseFilenames) return databaseFilenames
+	if (!databaseFilename) {
+		throw new Error(
+			'litefs-js: DATABASE_FILENAME is not defined. You must either set the DATABASE_FILENAME environment variable or pass the databaseFilenames option',
+		)
+	}
+	return [databaseFilename]
+}
+
+/**
+ * The position of a database in the txnum cookie: a full `Position`, or a
+ * bare transaction number (which is never compared by checksum).
+ */
+export type TxPosition = number | bigint | Position
+
+/**
+ * The value of the txnum cookie: the position of the database, or the
+ * position of each database keyed by database filename.
+ */
+export type TxCookieValue = TxPosition | Record<string, TxPosition>
+
+/**
+ * Gets the value for the txnum cookie: the position of `databaseFilename`
+ * (process.env.DATABASE_FILENAME by default), or the position of each database
+ * if `databaseFilenames` is given. Databases whose position is unknown get a
+ * transaction number of 0.
+ *
+ * @param {DatabasesOptions & LoggerOptions & InstrumentationOptions} [options]
+ *
+ * @returns {Promise<TxCookieValue>} the value to pass to
+ * `getTxSetCookieHeader`
+ */
+export async function getTxCookieValue({
+	litefsDir,
+	databaseFilename,
+	databaseFilenames,
+	logger,
+	instrumentation,
+}: DatabasesOptions &
+	LoggerOptions &
+	InstrumentationOptions = {}): Promise<TxCookieValue> {
+	const options = { logger, instrumentation }
+	if (!databaseFilenames) {
+		return (await getPosition(litefsDir, databaseFilename, options)) ?? 0
+	}
+	const positions = await Promise.all(
+		databaseFilenames.map(databaseFilename =>
+			getPosition(litefsDir, databaseFilename, options),
+		),
+	)
+	return toTxCookieValue(databaseFilenames, positions)
+}
+
+/**
+ * Just like getTxCookieValue except this runs synchronously (and isn't
+ * traced), so it can be used while the response headers are being written.
+ *
+ * @param {DatabasesOptions & LoggerOptions} [options]
+ *
+ * @returns {TxCookieValue} the value to pass to `getTxSetCookieHeader`
+ */
+export function getTxCookieValueSync({
+	litefsDir = process.env.LITEFS_DIR,
+	databaseFilename = process.env.DATABASE_FILENAME,
+	databaseFilenames,
+	logger,
+}: DatabasesOptions & LoggerOptions = {}): TxCookieValue {
+	const filenames = databaseFilenames ?? [databaseFilename]
+	const positions = filenames.map(databaseFilename =>
+		readPositionSync(
+			getPosFilePath(litefsDir, databaseFilename),
+			getLogger({ logger }),
+		),
+	)
+	if (!databaseFilenames) return positions[0] ?? 0
+	return toTxCookieValue(databaseFilenames, positions)
+}
+
+function toTxCookieValue(
+	databaseFilenames: Array<string>,
+	positions: Array<Position | null>,
+): TxCookieValue {
+	return Object.fromEntries(
+		databaseFilenames.map((databaseFilename, i) => [
+			databaseFilename,
+			positions[i] ?? 0,
+		]),
+	)
+}
+
+function isPosition(value: unknown): value is Position {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as Position).txid === 'bigint' &&
+		typeof (value as Position).checksum === 'string'
+	)
+}
+
+function serializeTxPosition(value: TxPosition): string {
+	if (isPosition(value)) return `${value.txid}/${value.checksum}`
+	return String(value)
+}
+
+function serializeTxPositions(value: TxCookieValue): string {
+	if (typeof value !== 'object' || isPosition(value)) {
+		return serializeTxPosition(value)
+	}
+	return Object.entries(value)
+		.map(
+			([databaseFilename, position]) =>
+				`${databaseFilename}:${serializeTxPosition(position)}`,
+		)
+		.join(',')
+}
+
+export type SignatureOptions = {
+	/**
+	 * Secret(s) used to sign the txnum cookie with HMAC-SHA256. The first secret
+	 * is used to sign new cookies and all of them are accepted when verifying,
+	 * so you can rotate secrets by adding the new one to the front of the list
+	 * and removing the old one once all cookies signed with it have expired.
+	 * When set, unsigned or forged cookies are treated as invalid.
+	 */
+	secrets?: string | Array<string>
+}
+
+/**
+ * Overrides for the txnum cookie: its name (defaults to `txnum`) and the
+ * options passed to cookie.serialize.
+ */
+export type TxCookieSettings = CookieSerializeOptions & { name?: string }
+
+export type TxCookieOptions = DatabasesOptions &
+	SignatureOptions & {
+		/** overrides for the name and attributes of the txnum cookie */
+		cookie?: TxCookieSettings
+	}
+
+export type ConsistencyOptions = TxCookieOptions &
+	LoggerOptions &
+	EnsurePrimaryOptions & {
+		/**
+		 * Whether to exchange the transaction number with the client through the
+		 * txnum cookie, the `LiteFS-Tx` header, or both. Defaults to "cookie".
+		 */
+		transport?: TxTransport
+		/**
+		 * The maximum amount of time (in milliseconds) a replica waits for the
+		 * transaction number to catch up. Defaults to 500.
+		 */
+		timeoutMs?: number
+		/**
+		 * The amount of time (in milliseconds) between checks of the transaction
+		 * number when no file system event has been received. Defaults to 30.
+		 */
+		intervalMs?: number
+		/**
+		 * When a replica doesn't catch up in time, look for another replica in
+		 * the same region that has (through its position endpoint, see
+		 * `getPositionsReport`) and replay there instead of to the primary.
+		 * Disabled by default.
+		 */
+		peers?: boolean | PeerReplayOptions
+	}
+
+function getSecrets(secrets: SignatureOptions['secrets']): Array<string> {
+	if (!secrets) return []
+	return Array.isArray(secrets) ? secrets : [secrets]
+}
+
+function getSignature(value: string, secret: string): string {
+	return crypto.createHmac('sha256', secret).update(value).digest('base64url')
+}
+
+function signTxCookieValue(value: string, secret: string): string {
+	return `${value}.${getSignature(value, secret)}`
+}
+
+/**
+ * Returns the unsigned value if it was signed with one of the secrets, or null
+ * if the signature is missing or doesn't match.
+ */
+function unsignTxCookieValue(
+	signedValue: string,
+	secrets: Array<string>,
+): string | null {
+	// signatures are base64url so they never contain a "." but db filenames can
+	const separatorIndex = signedValue.lastIndexOf('.')
+	if (separatorIndex === -1) return null
+	const value = signedValue.slice(0, separatorIndex)
+	const signature = Buffer.from(signedValue.slice(separatorIndex + 1))
+	for (const secret of secrets) {
+		const expected = Buffer.from(getSignature(value, secret))
+		if (
+			expected.length === signature.length &&
+			crypto.timingSafeEqual(expected, signature)
+		) {
+			return value
+		}
+	}
+	return null
+}
+
+function parseTxPosition(value: string): ClientPosition | null {
+	const match = /^(\d+)(?:\/([0-9a-f]+))?$/i.exec(value)
+	if (!match) return null
+	return { txid: BigInt(match[1]), checksum: match[2]?.toLowerCase() }
+}
+
+/**
+ * Parses the txnum cookie value into the position of each database.
+ * Returns null if the value is invalid or references a database that is not
+ * in `databaseFilenames` (we never read the -pos file of a database the
+ * client made up).
+ */
+function parseTxCookieValue(
+	value: string,
+	databaseFilenames: Array<string>,
+): Record<string, ClientPosition> | null {
+	if (!value.includes(':')) {
+		const position = parseTxPosition(value)
+		if (!position) return null
+		return { [databaseFilenames[0]]: position }
+	}
+	const positions: Record<string, ClientPosition> = {}
+	for (const entry of value.split(',')) {
+		const separatorIndex = entry.lastIndexOf(':')
+		const databaseFilename = entry.slice(0, separatorIndex)
+		const position = parseTxPosition(entry.slice(separatorIndex + 1))
+		if (!databaseFilenames.includes(databaseFilename)) return null
+		if (!position) return null
+		positions[databaseFilename] = position
 	}
+	return positions
+}
+
+/**
+ * Serializes the value of the txnum cookie (this is the value
+ * `getTxSetCookieHeader` sets), for frameworks that set cookies with their
+ * own API instead of a 'Set-Cookie' header.
+ *
+ * @param {TxCookieValue} value - the position(s) (get this from
+ * `await getTxCookieValue()`).
+ * @param {SignatureOptions} [options] - if `secrets` is given, the value is
+ * signed with the first secret.
+ *
+ * @returns {string} the cookie value
+ */
+export function serializeTxCookieValue(
+	value: TxCookieValue,
+	{ secrets }: SignatureOptions = {},
+): string {
+	const [secret] = getSecrets(secrets)
+	const cookieValue = serializeTxPositions(value)
+	return secret ? signTxCookieValue(cookieValue, secret) : cookieValue
+}
+
+/**
+ * Creates a seralized cookie header for the txnum cookie which you should use
+ * with a 'Set-Cookie' header to set the cookie in the client.
+ *
+ * @param {TxCookieValue} value - the value of the cookie (get this from
+ * `await getTxCookieValue()`).
+ * @param {TxCookieSettings & SignatureOptions} [options] - options to
+ * pass to cookie.serialize to override the defaults of path: "/",
+ * httpOnly: true, sameSite: "lax", secure: true. If `secrets` is given, the
+ * value is signed with the first secret. If `name` is given, it's used instead
+ * of `txnum`.
+ *
+ * @returns {number} the current transaction number
+ */
+export function getTxSetCookieHeader(
+	value: TxCookieValue,
+	{
+		secrets,
+		name = TXID_NUM_COOKIE_NAME,
+		...options
+	}: TxCookieSettings & SignatureOptions = {},
+): string {
+	return cookie.serialize(name, serializeTxCookieValue(value, { secrets }), {
+		path: '/',
+		httpOnly: true,
+		sameSite: 'lax',
+		secure: true,
+		...options,
+	})
+}
+
+/**
+ * Creates the value for the `LiteFS-Tx` response header. Clients that don't
+ * keep cookies should send this value back in the `LiteFS-Tx` request header.
+ *
+ * @param {TxCookieValue} value - the position(s) (get this from
+ * `await getTxCookieValue()`).
+ * @param {SignatureOptions} [options] - if `secrets` is given, the value is
+ * signed with the first secret.
+ *
+ * @returns {string} the header value
+ */
+export function getTxHeaderValue(
+	value: TxCookieValue,
+	{ secrets }: SignatureOptions = {},
+): string {
+	// the header carries the same value as the cookie
+	return serializeTxCookieValue(value, { secrets })
+}
+
+type TxRequestHeaders = {
+	/** the value of the 'Cookie' header from the request */
+	cookieHeader?: string | null
+	/** the value of the `LiteFS-Tx` header from the request */
+	txHeader?: string | null
+}
+
+type TxResponseHeaders = {
+	/** the value for the 'Set-Cookie' header, if the cookie is used */
+	setCookieHeader?: string
+	/** the value for the `LiteFS-Tx` header, if the header is used */
+	txHeader?: string
+}
+
+/**
+ * Creates the response header values that carry the transaction number to the
+ * client: the txnum cookie, the `LiteFS-Tx` header, or both depending on
+ * `options.transport`. Append `setCookieHeader` to the 'Set-Cookie' header and
+ * set the `LiteFS-Tx` header to `txHeader`.
+ *
+ * @param {TxCookieValue} value - the position(s) (get this from
+ * `await getTxCookieValue()`).
+ * @param {ConsistencyOptions} [options] - the transport, the cookie settings
+ * and the secrets to sign the value with.
+ *
+ * @returns {TxResponseHeaders} the header values to set
+ */
+export function getTxResponseHeaders(
+	value: TxCookieValue,
+	{
+		transport = 'cookie',
+		secrets,
+		cookie: cookieSettings,
+	}: Pick<ConsistencyOptions, 'transport' | 'secrets' | 'cookie'> = {},
+): TxResponseHeaders {
+	const headers: TxResponseHeaders = {}
+	if (transport !== 'header') {
+		headers.setCookieHeader = getTxSetCookieHeader(value, {
+			...cookieSettings,
+			secrets,
+		})
+	}
+	if (transport !== 'cookie') {
+		headers.txHeader = getTxHeaderValue(value, { secrets })
+	}
+	return headers
+}
+
+/**
+ * Reads the 'Cookie' and `LiteFS-Tx` header values from the request depending
+ * on `options.transport`, ready to be passed to
+ * `checkRequestForTransactionalConsistency`.
+ *
+ * @param {(name: string) => string | Array<string> | null | undefined} getHeader
+ * - returns the value of the request header with the given name (if a header
+ * has multiple values, the first one is used).
+ * @param {Pick<ConsistencyOptions, 'transport'>} [options] - where to read the
+ * transaction number from.
+ *
+ * @returns {TxRequestHeaders} the header values to check
+ */
+export function getTxRequestHeaders(
+	getHeader: (name: string) => string | Array<string> | null | undefined,
+	{ transport = 'cookie' }: Pick<ConsistencyOptions, 'transport'> = {},
+): TxRequestHeaders {
+	const get = (name: string) => {
+		const value = getHeader(name)
+		return Array.isArray(value) ? value[0] : value
+	}
+	return {
+		cookieHeader: transport === 'header' ? null : get('Cookie'),
+		txHeader: transport === 'cookie' ? null : get(TXID_NUM_HEADER_NAME),
+	}
+}
+
+type ConsistencyResult =
+	| { type: 'ok' }
+	| { type: 'delete-cookie'; setCookieHeader: string }
+	| {
+			type: 'replay'
+			/** the value of the fly-replay header for `target` */
+			flyReplayHeader: string
+			target: ReplayTarget
+			instance: string
+			reason: ReplayReason
+	  }
+/**
+ * Ensures that the transactional consistency cookie is set on the response object.
+ * If the current instance is the primary instance, then the cookie will be deleted.
+ * If the current instance is not the primary instance, then the cookie will be
+ * deleted if the transaction number in the cookie is up to date. If the transaction
+ * number in the cookie is not up to date, then the response will be replayed from
+ * the primary instance.
+ *
+ * If the cookie carries transaction numbers for multiple databases, then the
+ * replica waits for every one of them to be up to date.
+ *
+ * If `secrets` are given, cookies that aren't signed with one of them are
+ * treated like malformed cookies and deleted, so clients can't make replicas
+ * wait by setting an arbitrarily large transaction number.
+ *
+ * @param {string | null} cookieHeader - the value of the 'Cookie' header from the
+ * request.
+ * @param {ConsistencyOptions} [options]
+ *
+ *  @example
+ *  import { checkCookieForTransactionalConsistency } from "litefs-js/http";
+ *  ...
+ *  const status = await checkCookieForTransactionalConsistency(req, res);
+ *  if (status === 'replay') {
+ *  	res.setHeader('fly-replay', `instance=${primaryInstance}`)
+ *  	res.writeHead(409)
+ *  	res.end()
+ *  	return true
+ *  } else if (status === 'delete-cookie') {
+ *  	appendHeader(res, 'Set-Cookie', getTxSetCookieHeader(0, { maxAge: 0 }))
+ *  ...
+ *  } else if (status === 'ok') {
+ *  	// continue with request
+ *  }
+ *  ...
+ *
+ * @returns {Promise<ConsistencyResult>} - resolves to 'ok' if the request should continue,
+ * 'delete-cookie' if the cookie should be deleted, or 'replay' if the request
+ * should be replayed on the primary instance.
+ */
+export async function checkCookieForTransactionalConsistency(
+	cookieHeader: string | null | undefined,
+	options?: ConsistencyOptions,
+): Promise<ConsistencyResult> {
+	return checkRequestForTransactionalConsistency({ cookieHeader }, options)
+}
+
+/**
+ * Just like checkCookieForTransactionalConsistency except the transaction
+ * number can also come from the `LiteFS-Tx` request header (for clients that
+ * don't keep cookies). If both are given, the replica waits for the newest
+ * transaction number of each database.
+ *
+ * Unlike the cookie, an invalid header can't be deleted so it is ignored.
+ *
+ * @param {TxRequestHeaders} headers - the 'Cookie' and `LiteFS-Tx` header
+ * values from the request.
+ * @param {ConsistencyOptions} [options]
+ *
+ * @returns {Promise<ConsistencyResult>} - resolves to 'ok' if the request should continue,
+ * 'delete-cookie' if the cookie should be deleted, or 'replay' if the request
+ * should be replayed on the primary instance.
+ */
+export async function checkRequestForTransactionalConsistency(
+	headers: TxRequestHeaders,
+	options: ConsistencyOptions = {},
+): Promise<ConsistencyResult> {
+	const result = await checkClientTxNumbers(headers, options)
+	const hooks = getInstrumentation(options)
+	hooks.consistencyCheck?.({ result: result.type })
+	if (result.type === 'replay') {
+		hooks.replay?.({
+			reason: result.reason,
+			instance: result.instance,
+			target: result.target,
+		})
+	}
+	return result
+}
+
+async function checkClientTxNumbers(
+	{ cookieHeader, txHeader }: TxRequestHeaders,
+	{
+		litefsDir,
+		databaseFilename: defaultDatabaseFilename,
+		databaseFilenames,
+		secrets,
+		cookie: cookieSettings,
+		timeoutMs,
+		intervalMs,
+		logger,
+		instrumentation,
+		replayState,
+		peers,
+	}: ConsistencyOptions,
+): Promise<ConsistencyResult> {
+	const cookies = cookieHeader ? cookie.parse(cookieHeader) : {}
+
+	const txCookieValue = cookies[cookieSettings?.name ?? TXID_NUM_COOKIE_NAME]
+	const deleteCookieHeader = () =>
+		getTxSetCookieHeader(0, { ...cookieSettings, expires: new Date(0) })
+	if (!txCookieValue && !txHeader) return { type: 'ok' }
+	const parseValue = (value: string) => {
+		const verifiedSecrets = getSecrets(secrets)
+		const unsignedValue = verifiedSecrets.length
+			? unsignTxCookieValue(value, verifiedSecrets)
+			: value
+		if (unsignedValue === null) return null
+		return parseTxCookieValue(
+			unsignedValue,
+			getDatabaseFilenames(databaseFilenames, defaultDatabaseFilename),
+		)
+	}
+
+	const cookiePositions = txCookieValue ? parseValue(txCookieValue) : null
+	if (txCookieValue && !cookiePositions) {
+		getLogger({ logger }).warn(
+			{ code: 'invalid-tx-cookie', value: txCookieValue },
+			'Invalid tx number in cookie. Deleting cookie.',
+		)
+		return { type: 'delete-cookie', setCookieHeader: deleteCookieHeader() }
+	}
+	const headerPositions = txHeader ? parseValue(txHeader) : null
+	if (txHeader && !headerPositions) {
+		getLogger({ logger }).warn(
+			{ code: 'invalid-tx-header', value: txHeader },
+			`Invalid tx number in ${TXID_NUM_HEADER_NAME} header. Ignoring it.`,
+		)
+	}
+
+	const clientPositions: Record<string, ClientPosition> = { ...cookiePositions }
+	for (const [databaseFilename, position] of Object.entries(
+		headerPositions ?? {},
+	)) {
+		const cookiePosition = clientPositions[databaseFilename]
+		// keep the newest position (and the one with a checksum if they're equal)
+		if (
+			!cookiePosition ||
+			position.txid > cookiePosition.txid ||
+			(position.txid === cookiePosition.txid && !cookiePosition.checksum)
+		) {
+			clientPositions[databaseFilename] = position
+		}
+	}
+	const settledResult: ConsistencyResult = txCookieValue
+		? { type: 'delete-cookie', setCookieHeader: deleteCookieHeader() }
+		: { type: 'ok' }
+	const clientEntries = Object.entries(clientPositions)
+	if (!clientEntries.length) return settledResult
+
+	const { primaryInstance, currentIsPrimary } = await getInstanceInfo(litefsDir)
+	if (currentIsPrimary) {
+		for (const [databaseFilename, clientPosition] of clientEntries) {
+			const position = await getPosition(litefsDir, databaseFilename, {
+				logger,
+				instrumentation,
+			})
+			if (!position) continue
+			const comparison = comparePositions(position, clientPosition)
+			const fields = {
+				instance: primaryInstance,
+				databaseFilename,
+				clientTx: Number(clientPosition.txid),
+				currentTx: Number(position.txid),
+			}
+			if (comparison === 'behind') {
+				getLogger({ logger }).warn(
+					{ code: 'client-tx-ahead-of-primary', ...fields },
+					'User somehow had a newer tx number than the primary instance (was the txid reset?). Deleting cookie.',
+				)
+			} else if (comparison === 'diverged') {
+				getLogger({ logger }).warn(
+					{ code: 'position-diverged', ...fields },
+					"The primary's position doesn't match the client's (the database was restored or the txid was reset). Deleting cookie.",
+				)
+			}
+		}
+		return settledResult
+	}
+
+	const waitResults = await Promise.all(
+		clientEntries.map(([databaseFilename, clientPosition]) =>
+			waitForPosition(clientPosition, {
+				litefsDir,
+				databaseFilename,
+				timeoutMs,
+				intervalMs,
+				logger,
+				instrumentation,
+			}),
+		),
+	)
+	if (waitResults.every(result => result === 'up-to-date')) {
+		return settledResult
+	}
+	if (peers && !waitResults.includes('diverged')) {
+		const peer = await findCaughtUpPeer(
+			clientEntries,
+			primaryInstance,
+			peers === true ? {} : peers,
+			getLogger({ logger }),
+		)
+		if (peer) {
+			const target = replayState
+				? { instance: peer, state: replayState }
+				: { instance: peer }
+			return {
+				type: 'replay',
+				flyReplayHeader: buildFlyReplayHeader(target),
+				target,
+				instance: peer,
+				reason: 'tx-wait-timeout',
+			}
+		}
+	}
+	// a diverged position will never catch up, so only the primary can tell
+	// what the client should see
+	const target = getPrimaryReplayTarget(primaryInstance, replayState)
+	return {
+		type: 'replay',
+		flyReplayHeader: buildFlyReplayHeader(target),
+		target,
+		instance: primaryInstance,
+		reason: waitResults.includes('diverged')
+			? 'position-diverged'
+			: 'tx-wait-timeout',
+	}
+}
+
+/**
+ * The default path of the position endpoint.
+ */
+export const LITEFS_POSITIONS_PATH = '/_litefs/positions'
+
+/**
+ * The positions an instance reports to its peers.
+ */
+export type PositionsReport = {
+	/** the hostname of the instance */
+	instance: string
+	/**
+	 * the position (`txid/checksum`) of each database, null if it's unknown
+	 */
+	positions: Record<string, string | null>
+}
+
+export type PeerReplayOptions = {
+	/** the region of the current instance. Defaults to process.env.FLY_REGION */
+	region?: string
+	/** the name of your Fly app. Defaults to process.env.FLY_APP_NAME */
+	appName?: string
+	/**
+	 * the port of the position endpoint. Defaults to process.env.INTERNAL_PORT
+	 * or process.env.PORT
+	 */
+	port?: string
+	/** the path of the position endpoint. Defaults to "/_litefs/positions" */
+	path?: string
+	/**
+	 * The maximum amount of time (in milliseconds) to wait for the positions
+	 * of the peers. Defaults to 100.
+	 */
+	timeoutMs?: number
+	/** the fetch implementation to use. Defaults to the global fetch */
+	fetch?: typeof fetch
+}
+
+/**
+ * Reads the positions of the databases of the current instance. Serve this
+ * (with `sendPositions`, `getPositionsMiddleware` or `getPositionsResponse`)
+ * at `LITEFS_POSITIONS_PATH` on your internal port so peers can replay
+ * requests to this instance (see the `peers` option).
+ *
+ * @param {DatabasesOptions & LoggerOptions} [options]
+ * @returns {Promise<PositionsReport>} the positions of the databases
+ */
+export async function getPositionsReport({
+	litefsDir,
+	databaseFilename,
+	databaseFilenames,
+	logger,
+}: DatabasesOptions & LoggerOptions = {}): Promise<PositionsReport> {
+	const filenames = getDatabaseFilenames(databaseFilenames, databaseFilename)
+	const positions = await Promise.all(
+		filenames.map(databaseFilename =>
+			getPosition(litefsDir, databaseFilename, { logger }),
+		),
+	)
+	return {
+		instance: os.hostname(),
+		positions: Object.fromEntries(
+			filenames.map((databaseFilename, i) => {
+				const position = positions[i]
+				return [
+					databaseFilename,
+					position ? serializeTxPosition(position) : null,
+				]
+			}),
+		),
+	}
+}
+
+function isCaughtUp(
+	report: PositionsReport,
+	clientEntries: Array<[string, ClientPosition]>,
+): boolean {
+	return clientEntries.every(([databaseFilename, clientPosition]) => {
+		const value = report.positions?.[databaseFilename]
+		const position = value ? parseTxPosition(value) : null
+		if (!position?.checksum) return false
+		const comparison = comparePositions(
+			{ txid: position.txid, checksum: position.checksum },
+			clientPosition,
+		)
+		return comparison === 'equal' || comparison === 'ahead'
+	})
+}
+
+/**
+ * Asks the other replicas in the region for their positions and resolves to
+ * the first one that has caught up to the client (null if none has).
+ */
+async function findCaughtUpPeer(
+	clientEntries: Array<[string, ClientPosition]>,
+	primaryInstance: string,
+	{
+		region = process.env.FLY_REGION,
+		appName = process.env.FLY_APP_NAME,
+		port,
+		path: positionsPath = LITEFS_POSITIONS_PATH,
+		timeoutMs = 100,
+		fetch: fetchImpl = fetch,
+	}: PeerReplayOptions,
+	logger: Logger,
+): Promise<string | null> {
+	if (!region) return null
+	const currentInstance = os.hostname()
+	const instances = await getAllInstances({ appName, region, logger })
+	const peers = Object.entries(instances)
+		.filter(
+			([instance, instanceRegion]) =>
+				instanceRegion === region &&
+				instance !== currentInstance &&
+				instance !== primaryInstance,
+		)
+		.map(([instance]) => instance)
+	if (!peers.length) return null
+
+	const signal = AbortSignal.timeout(timeoutMs)
+	try {
+		return await Promise.any(
+			peers.map(async peer => {
+				const url = `${getInternalInstanceDomain(peer, port, appName)}${positionsPath}`
+				const response = await fetchImpl(url, { signal })
+				if (!response.ok) {
+					throw new Error(
+						`litefs-js: GET ${url} failed with ${response.status}`,
+					)
+				}
+				const report = (await response.json()) as PositionsReport
+				if (!isCaughtUp(report, clientEntries)) {
+					throw new Error(`litefs-js: ${peer} hasn't caught up`)
+				}
+				return peer
+			}),
+		)
+	} catch (error: unknown) {
+		logger.debug(
+			{ code: 'peer-lookup-failed', error },
+			`No replica in ${region} has caught up, replaying to the primary`,
+		)
+		return null
+	}
+}
+
+export type DatabaseReplicationStatus = {
+	/** the current transaction number of the database */
+	txNumber: number
+	/**
+	 * when the position last advanced (the modification time of the "-pos"
+	 * file), null if the database hasn't received any transaction
+	 */
+	lastAdvancedAt: Date | null
+	/** the time (in milliseconds) since the position last advanced */
+	msSinceLastAdvance: number | null
+}
+
+export type ReplicationStatus = InstanceInfo & {
+	role: 'primary' | 'replica'
+	/**
+	 * the replication lag (in milliseconds) reported by LiteFS in the `.lag`
+	 * file, null if LiteFS doesn't report it. Always 0 on the primary.
+	 */
+	lagMs: number | null
+	/** the status of each database, keyed by database filename */
+	databases: Record<string, DatabaseReplicationStatus>
+}
+
+async function readLagMs(litefsDir: string): Promise<number | null> {
+	try {
+		const lag = Number(
+			(await fs.promises.readFile(path.join(litefsDir, '.lag'), 'utf8')).trim(),
+		)
+		return Number.isFinite(lag) ? lag : null
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Reports the position of this instance for your load balancer or dashboards:
+ * whether it's the primary or a replica, the transaction number of each
+ * database, when it last advanced, and the replication lag reported by
+ * LiteFS (where available).
+ *
+ * @param {DatabasesOptions & LoggerOptions} [options]
+ *
+ * @returns {Promise<ReplicationStatus>} the replication status
+ */
+export async function getReplicationStatus({
+	litefsDir = process.env.LITEFS_DIR,
+	databaseFilename,
+	databaseFilenames,
+	logger,
+}: DatabasesOptions & LoggerOptions = {}): Promise<ReplicationStatus> {
+	const instanceInfo = await getInstanceInfo(litefsDir)
+	const filenames = getDatabaseFilenames(databaseFilenames, databaseFilename)
+	const now = Date.now()
+	const databases = Object.fromEntries(
+		await Promise.all(
+			filenames.map(async databaseFilename => {
+				const posFilePath = getPosFilePath(litefsDir, databaseFilename)
+				const [txNumber, stats] = await Promise.all([
+					readTxNumber(posFilePath, getLogger({ logger })),
+					fs.promises.stat(posFilePath).catch(() => null),
+				])
+				const databaseStatus: DatabaseReplicationStatus = {
+					txNumber,
+					lastAdvancedAt: stats ? stats.mtime : null,
+					msSinceLastAdvance: stats ? Math.max(0, now - stats.mtimeMs) : null,
+				}
+				return [databaseFilename, databaseStatus] as const
+			}),
+		),
+	)
+	return {
+		...instanceInfo,
+		role: instanceInfo.currentIsPrimary ? 'primary' : 'replica',
+		lagMs: instanceInfo.currentIsPrimary
+			? 0
+			: await readLagMs(litefsDir as string),
+		databases,
+	}
+}
+
+export type HealthCheckOptions = DatabasesOptions &
+	LoggerOptions & {
+		/**
+		 * replicas with a higher replication lag (in milliseconds) than this are
+		 * not ready. Defaults to 10000. Ignored if LiteFS doesn't report the lag.
+		 */
+		maxLagMs?: number
+		/**
+		 * replicas whose position hasn't advanced for longer (in milliseconds)
+		 * than this are not ready. Disabled by default because a replica of an
+		 * idle database doesn't advance either.
+		 */
+		maxMsSinceLastAdvance?: number
+	}
+
+export type HealthCheckResult = {
+	/** whether the instance is ready to serve requests */
+	ok: boolean
+	/** why the instance is not ready (empty if it is) */
+	reasons: Array<string>
+	status: ReplicationStatus
+}
+
+/**
+ * Checks the replication status against the thresholds. The primary is
+ * always ready, replicas are not ready if they're too far behind.
+ *
+ * @param {HealthCheckOptions} [options]
+ *
+ * @returns {Promise<HealthCheckResult>} whether the instance is ready, why
+ * not, and the replication status
+ */
+export async function checkReplicationHealth({
+	maxLagMs = 10_000,
+	maxMsSinceLastAdvance,
+	...options
+}: HealthCheckOptions = {}): Promise<HealthCheckResult> {
+	const status = await getReplicationStatus(options)
+	const reasons: Array<string> = []
+	if (status.role === 'replica') {
+		if (status.lagMs !== null && status.lagMs > maxLagMs) {
+			reasons.push(
+				`replication lag of ${status.lagMs}ms is above ${maxLagMs}ms`,
+			)
+		}
+		for (const [databaseFilename, { msSinceLastAdvance }] of Object.entries(
+			status.databases,
+		)) {
+			if (
+				maxMsSinceLastAdvance !== undefined &&
+				(msSinceLastAdvance === null ||
+					msSinceLastAdvance > maxMsSinceLastAdvance)
+			) {
+				reasons.push(
+					`${databaseFilename} hasn't advanced in over ${maxMsSinceLastAdvance}ms`,
+				)
+			}
+		}
+	}
+	return { ok: reasons.length === 0, reasons, status }
 }
 
 /**
@@ -331,13 +2167,134 @@ export function getInternalInstanceDomain(
 	port: string | void = process.env.INTERNAL_PORT ??
 		process.env.PORT ??
 		panic('INTERNAL_PORT or PORT must be set or a port must be supplied'),
+	appName: string | undefined = process.env.FLY_APP_NAME,
 ) {
 	// http and specify port for internal vm requests
-	return `http://${instance}.vm.${process.env.FLY_APP_NAME}.internal:${port}`
+	return `http://${instance}.vm.${appName}.internal:${port}`
+}
+
+/**
+ * Resolves the DNS records used to discover the instances of your app. Pass
+ * your own to `getAllInstances` and `getInstances` to stub the lookups in
+ * tests. Defaults to `dns.promises`.
+ */
+export type InstanceResolver = {
+	/** resolves the TXT records of a hostname */
+	resolveTxt: (hostname: string) => Promise<Array<Array<string>>>
+	/**
+	 * resolves the IPv6 addresses (AAAA records) of a hostname, used to find
+	 * the private IP of each instance
+	 */
+	resolve6?: (hostname: string) => Promise<Array<string>>
+}
+
+type GetAllInstancesOptions = LoggerOptions & {
+	/** the name of your Fly app. Defaults to process.env.FLY_APP_NAME */
+	appName?: string
+	/**
+	 * the region reported for the current instance if the lookup fails.
+	 * Defaults to process.env.FLY_REGION
+	 */
+	region?: string
+	/** the DNS resolver to use. Defaults to `dns.promises` */
+	resolver?: InstanceResolver
+	/**
+	 * How long (in milliseconds) the instances are cached. Defaults to 5000, use
+	 * 0 to always look them up.
+	 */
+	cacheTtlMs?: number
+}
+
+type InstancesCacheEntry = {
+	expiresAt: number
+	regions: Promise<Record<string, string>>
+	privateIps?: Promise<Record<string, string | null>>
+}
+
+let instancesCache = new WeakMap<
+	InstanceResolver,
+	Map<string, InstancesCacheEntry>
+>()
+
+/**
+ * Clears the instances cached by `getAllInstances` and `getInstances`, for
+ * example right after scaling your app.
+ */
+export function clearInstancesCache(): void {
+	instancesCache = new WeakMap()
+}
+
+function getInstancesCacheEntry(
+	appName: string,
+	resolver: InstanceResolver,
+	cacheTtlMs: number,
+): InstancesCacheEntry {
+	let entries = instancesCache.get(resolver)
+	if (!entries) {
+		entries = new Map()
+		instancesCache.set(resolver, entries)
+	}
+	const cached = entries.get(appName)
+	if (cacheTtlMs > 0 && cached && cached.expiresAt > Date.now()) {
+		return cached
+	}
+
+	const entry: InstancesCacheEntry = {
+		expiresAt: Date.now() + cacheTtlMs,
+		regions: resolver.resolveTxt(`vms.${appName}.internal`).then(rawTxts =>
+			rawTxts
+				.flat()
+				.flatMap(r => r.split(','))
+				.map(vm => vm.trim().split(' '))
+				.reduce<Record<string, string>>(
+					(all, [instanceId, region]) =>
+						instanceId && region ? { ...all, [instanceId]: region } : all,
+					{},
+				),
+		),
+	}
+	// failed lookups are retried on the next call
+	entry.regions.catch(() => {
+		if (entries.get(appName) === entry) entries.delete(appName)
+	})
+	if (cacheTtlMs > 0) entries.set(appName, entry)
+	return entry
+}
+
+/**
+ * Looks up the instances (or falls back to the current instance). The cache
+ * entry is null if there's nothing to cache.
+ */
+async function lookupInstances({
+	appName = process.env.FLY_APP_NAME,
+	region = process.env.FLY_REGION,
+	resolver = dns.promises,
+	cacheTtlMs = 5000,
+	logger,
+}: GetAllInstancesOptions): Promise<{
+	regions: Record<string, string>
+	entry: InstancesCacheEntry | null
+}> {
+	if (!appName) {
+		return { regions: { [os.hostname()]: 'local' }, entry: null }
+	}
+
+	try {
+		const entry = getInstancesCacheEntry(appName, resolver, cacheTtlMs)
+		return { regions: await entry.regions, entry }
+	} catch (error: unknown) {
+		getLogger({ logger }).error(
+			{ code: 'instances-lookup-failed', error },
+			'Error getting all instances',
+		)
+		return { regions: { [os.hostname()]: region ?? 'local' }, entry: null }
+	}
 }
 
 /**
  * Gives an object of instance ids mapped to the region where they're hosted.
+ * The instances are cached for `cacheTtlMs` (5 seconds by default). If the
+ * lookup fails, only the current instance is returned.
  * @example
  * import { getAllInstances } from "litefs-js/http";
  * ...
@@ -345,29 +2302,241 @@ export function getInternalInstanceDomain(
  * // instances === { "5ef6ddf5": "maa", "5ef6ddf6": "sjc", "5ef6ddf7": "ams" }
  * ...
  */
-export async function getAllInstances() {
-	if (!process.env.FLY_APP_NAME) {
-		return { [os.hostname()]: 'local' }
+export async function getAllInstances(
+	options: GetAllInstancesOptions = {},
+): Promise<Record<string, string>> {
+	const { regions } = await lookupInstances(options)
+	return regions
+}
+
+export type Instance = {
+	/** the id of the instance (its hostname) */
+	id: string
+	/** the region where the instance is hosted */
+	region: string
+	/**
+	 * the private (6PN) IPv6 address of the instance, null if it couldn't be
+	 * resolved
+	 */
+	privateIp: string | null
+	/** whether the instance is the primary (per the `.primary` file) */
+	isPrimary: boolean
+}
+
+export type GetInstancesOptions = GetAllInstancesOptions & {
+	/**
+	 * the directory where the .primary file is stored. Defaults to
+	 * process.env.LITEFS_DIR.
+	 */
+	litefsDir?: LiteFSDir
+}
+
+async function resolvePrivateIps(
+	instanceIds: Array<string>,
+	{
+		appName = process.env.FLY_APP_NAME,
+		resolver = dns.promises,
+	}: GetAllInstancesOptions,
+): Promise<Record<string, string | null>> {
+	const entries = await Promise.all(
+		instanceIds.map(async (id): Promise<[string, string | null]> => {
+			try {
+				const [ip] =
+					(await resolver.resolve6?.(`${id}.vm.${appName}.internal`)) ?? []
+				return [id, ip ?? null]
+			} catch {
+				return [id, null]
+			}
+		}),
+	)
+	return Object.fromEntries(entries)
+}
+
+/**
+ * Gives all the instances of your app (found with the same DNS lookup as
+ * `getAllInstances`, and cached the same way) with their region, private IP
+ * and whether they're the primary. The primary is read from the `.primary`
+ * file on every call, so it's never stale.
+ *
+ * @param {GetInstancesOptions} [options]
+ * @example
+ * import { getInstances } from "litefs-js";
+ * ...
+ * const instances = await getInstances()
+ * // instances === [{ id: "5ef6ddf5", region: "maa", privateIp: "fdaa:0:...", isPrimary: true }, ...]
+ * ...
+ * @returns {Promise<Array<Instance>>} the instances
+ */
+export async function getInstances({
+	litefsDir,
+	...options
+}: GetInstancesOptions = {}): Promise<Array<Instance>> {
+	const [{ regions, entry }, { primaryInstance }] = await Promise.all([
+		lookupInstances(options),
+		getInstanceInfo(litefsDir),
+	])
+	let privateIps: Record<string, string | null> = {}
+	if (entry) {
+		entry.privateIps ??= resolvePrivateIps(Object.keys(regions), options)
+		privateIps = await entry.privateIps
 	}
+	return Object.entries(regions).map(([id, region]) => ({
+		id,
+		region,
+		privateIp: privateIps[id] ?? null,
+		isPrimary: id === primaryInstance,
+	}))
+}
 
-	try {
-		const rawTxts = await dns.promises.resolveTxt(
-			`vms.${process.env.FLY_APP_NAME ?? 'local'}.internal`,
-		)
-		const instances = rawTxts
-			.flat()
-			.flatMap(r => r.split(','))
-			.map(vm => vm.split(' '))
-			.reduce<Record<string, string>>(
-				(all, [instanceId, region]) =>
-					instanceId && region ? { ...all, [instanceId]: region } : all,
-				{},
+/**
+ * Gives the instances of your app in a region (see `getInstances`).
+ *
+ * @param {string} [region] the region. Defaults to process.env.FLY_REGION
+ * @param {GetInstancesOptions} [options]
+ * @returns {Promise<Array<Instance>>} the instances in the region
+ */
+export async function getInstancesInRegion(
+	region: string | undefined = process.env.FLY_REGION,
+	options: GetInstancesOptions = {},
+): Promise<Array<Instance>> {
+	const instances = await getInstances(options)
+	return instances.filter(instance => instance.region === region)
+}
+
+/**
+ * Gives the primary instance of your app (see `getInstances`).
+ *
+ * @param {GetInstancesOptions} [options]
+ * @returns {Promise<Instance | null>} the primary instance, null if it wasn't
+ * found by the DNS lookup
+ */
+export async function getPrimaryInstance(
+	options: GetInstancesOptions = {},
+): Promise<Instance | null> {
+	const instances = await getInstances(options)
+	return instances.find(instance => instance.isPrimary) ?? null
+}
+
+export type BroadcastOptions = GetInstancesOptions & {
+	/**
+	 * the port the requests are sent to. Defaults to process.env.INTERNAL_PORT
+	 * or process.env.PORT
+	 */
+	port?: string
+	/**
+	 * the origin of an instance. Defaults to `getInternalInstanceDomain`, use
+	 * this when your instances aren't reachable through Fly's internal DNS
+	 */
+	getInstanceOrigin?: (instance: string) => string
+	/** how many requests are in flight at once. Defaults to 10 */
+	concurrency?: number
+	/**
+	 * The maximum amount of time (in milliseconds) to wait for each instance.
+	 * Defaults to 5000.
+	 */
+	timeoutMs?: number
+	/** don't send the request to the current instance. Defaults to false */
+	skipCurrentInstance?: boolean
+	/**
+	 * only send the request to replicas (the primary is read from the
+	 * `.primary` file). Defaults to false
+	 */
+	replicasOnly?: boolean
+	/** the fetch implementation to use. Defaults to the global fetch */
+	fetch?: typeof fetch
+}
+
+export type BroadcastResult = {
+	/** the status code of the response, null if the request failed */
+	status: number | null
+	/** the body of the response, null if the request failed */
+	body: string | null
+	/** why the request failed (for example a network error or a timeout) */
+	error?: unknown
+}
+
+/**
+ * Sends a request to an internal endpoint of every instance of your app (found
+ * with `getAllInstances`) in parallel, for example to purge in-memory caches
+ * after a write on the primary. A failed request doesn't fail the others, its
+ * error is in its result instead. The `body` of `init` is sent to every
+ * instance, so it can't be a stream.
+ *
+ * @param {string} pathname the path of the endpoint (for example `/_cache/purge`)
+ * @param {RequestInit} [init] the fetch options of the requests
+ * @param {BroadcastOptions} [options]
+ * @example
+ * import { broadcast } from "litefs-js";
+ * ...
+ * const results = await broadcast('/_cache/purge', { method: 'POST' }, {
+ * 	replicasOnly: true,
+ * })
+ * // results === { "5ef6ddf6": { status: 204, body: "" }, ... }
+ * ...
+ * @returns {Promise<Record<string, BroadcastResult>>} the result of each
+ * request, keyed by instance id
+ */
+export async function broadcast(
+	pathname: string,
+	init: RequestInit = {},
+	{
+		appName = process.env.FLY_APP_NAME,
+		port,
+		getInstanceOrigin = instance =>
+			getInternalInstanceDomain(instance, port, appName),
+		concurrency = 10,
+		timeoutMs = 5000,
+		skipCurrentInstance = false,
+		replicasOnly = false,
+		fetch: fetchImpl = fetch,
+		litefsDir,
+		...options
+	}: BroadcastOptions = {},
+): Promise<Record<string, BroadcastResult>> {
+	const [instances, { primaryInstance }] = await Promise.all([
+		getAllInstances({ ...options, appName }),
+		replicasOnly ? getInstanceInfo(litefsDir) : { primaryInstance: undefined },
+	])
+	const currentInstance = os.hostname()
+	const queue = Object.keys(instances).filter(
+		instance =>
+			!(skipCurrentInstance && instance === currentInstance) &&
+			!(replicasOnly && instance === primaryInstance),
+	)
+
+	const results: Record<string, BroadcastResult> = {}
+	async function send(instance: string) {
+		const timeout = AbortSignal.timeout(timeoutMs)
+		try {
+			const response = await fetchImpl(
+				`${getInstanceOrigin(instance)}${pathname}`,
+				{
+					...init,
+					signal: init.signal
+						? AbortSignal.any([init.signal, timeout])
+						: timeout,
+				},
 			)
-		return instances
-	} catch (error: unknown) {
-		console.error('Error getting all instances', error)
-		return { [os.hostname()]: [process.env.FLY_REGION ?? 'local'] }
+			results[instance] = {
+				status: response.status,
+				body: await response.text(),
+			}
+		} catch (error: unknown) {
+			results[instance] = { status: null, body: null, error }
+		}
+	}
+	async function work() {
+		for (let instance = queue.shift(); instance; instance = queue.shift()) {
+			await send(instance)
+		}
 	}
+	await Promise.all(
+		Array.from(
+			{ length: Math.min(Math.max(concurrency, 1), queue.length) },
+			work,
+		),
+	)
+	return results
 }
 
 function panic(message: string) {
@@ -0,0 +1,134 @@
+// this is the instrumentation hooks used by all utilities, so you can collect
+// metrics and traces of consistency waits and replays
+import type { ReplayTarget } from './fly-replay.js'
+
+/**
+ * Why a request was replayed to another instance:
+ *
+ * - `not-primary`: a mutation came in on a replica
+ * - `tx-wait-timeout`: the replica didn't catch up to the client's tx number
+ *   in time (the request is replayed to the primary, or to a replica that has
+ *   caught up with the `peers` option)
+ * - `position-diverged`: the replica is at the client's tx number but with a
+ *   different checksum (the database was restored or the txid was reset)
+ * - `instance`: the request had to be handled by a specific instance
+ *   (`ensureInstance`)
+ */
+export type ReplayReason =
+	| 'not-primary'
+	| 'tx-wait-timeout'
+	| 'position-diverged'
+	| 'instance'
+
+export type ReplayEvent = {
+	reason: ReplayReason
+	/** the instance the request is replayed to */
+	instance: string
+	/** the full replay target (including the `state`, if any) */
+	target: ReplayTarget
+}
+
+export type ConsistencyCheckEvent = {
+	/** the outcome of the transactional consistency check */
+	result: 'ok' | 'delete-cookie' | 'replay'
+}
+
+export type TxWaitEvent = {
+	databaseFilename: string
+	/** the transaction number the client sent */
+	clientTx: number
+	/** how long (in milliseconds) the replica waited (0 if it was up to date) */
+	waitedMs: number
+	/** whether the replica gave up before catching up */
+	timedOut: boolean
+	/** whether the replica stopped waiting because the positions diverged */
+	diverged: boolean
+}
+
+/**
+ * The operations that are traced:
+ *
+ * - `litefs.wait_for_tx_number`: `waitForUpToDateTxNumber`
+ * - `litefs.get_tx_number`: `getTxNumber`
+ * - `litefs.get_position`: `getPosition`
+ */
+export type TraceName =
+	| 'litefs.wait_for_tx_number'
+	| 'litefs.get_tx_number'
+	| 'litefs.get_position'
+
+export type TraceAttributes = Record<string, string | number | undefined>
+
+/**
+ * Hooks called by the utilities. Every hook is optional, so you can implement
+ * only the ones you need. Hooks should not throw.
+ */
+export type Instrumentation = {
+	/** called with the outcome of every transactional consistency check */
+	consistencyCheck?: (event: ConsistencyCheckEvent) => void
+	/** called whenever a request is replayed to another instance */
+	replay?: (event: ReplayEvent) => void
+	/** called whenever a replica waited for a transaction number */
+	txWait?: (event: TxWaitEvent) => void
+	/** wraps traced operations, for example in a span */
+	trace?: <Result>(
+		name: TraceName,
+		attributes: TraceAttributes,
+		fn: () => Promise<Result>,
+	) => Promise<Result>
+}
+
+export type InstrumentationOptions = {
+	/**
+	 * the instrumentation to use for this call. Defaults to the instrumentation
+	 * set with `setInstrumentation`.
+	 */
+	instrumentation?: Instrumentation
+}
+
+let globalInstrumentation: Instrumentation = {}
+
+/**
+ * Sets the instrumentation used by all utilities unless an `instrumentation`
+ * is passed to the call.
+ *
+ * @param {Instrumentation} instrumentation the hooks to call (pass `{}` to
+ * remove them)
+ * @example
+ * import { setInstrumentation } from "litefs-js";
+ * ...
+ * setInstrumentation({
+ * 	replay: ({ reason }) => replays.inc({ reason }),
+ * 	txWait: ({ waitedMs }) => waitDuration.observe(waitedMs),
+ * })
+ * ...
+ */
+export function setInstrumentation(instrumentation: Instrumentation): void {
+	globalInstrumentation = instrumentation
+}
+
+/**
+ * @param {InstrumentationOptions} [options]
+ *
+ * @returns {Instrumentation} the instrumentation passed in the options or the
+ * global instrumentation
+ */
+export function getInstrumentation({
+	instrumentation,
+}: InstrumentationOptions = {}): Instrumentation {
+	return instrumentation ?? globalInstrumentation
+}
+
+/**
+ * Runs `fn` inside the `trace` hook of the instrumentation (if any).
+ */
+export function traced<Result>(
+	instrumentation: Instrumentation,
+	name: TraceName,
+	attributes: TraceAttributes,
+	fn: () => Promise<Result>,
+): Promise<Result> {
+	return instrumentation.trace
+		? instrumentation.trace(name, attributes, fn)
+		: fn()
+}
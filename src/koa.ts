@@ -0,0 +1,120 @@
+// this is utilities for koa
+import type { Context, Middleware } from 'koa'
+import {
+	checkRequestForTransactionalConsistency,
+	getInstanceInfo,
+	getTxCookieValue,
+	getTxRequestHeaders,
+	getTxResponseHeaders,
+	replayToPrimary,
+	TXID_NUM_HEADER_NAME,
+	type ConsistencyOptions,
+	type EnsurePrimaryOptions,
+} from './index.js'
+import { buildFlyReplayHeader, FLY_REPLAY_HEADER_NAME } from './fly-replay.js'
+
+const mutationMethods = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+function replay(ctx: Context, flyReplayHeader: string) {
+	ctx.status = 409
+	ctx.set(FLY_REPLAY_HEADER_NAME, flyReplayHeader)
+	ctx.body = ''
+}
+
+/**
+ * This is a koa middleware that will ensure that if the client has a
+ * transaction number cookie, then the server will wait until the transaction
+ * number is up to date before continuing. If it takes too long, then it will
+ * instead reply to the primary instance.
+ *
+ * This should be used in conjunction with the `getSetTxNumberMiddleware` middleware.
+ *
+ * This should be applied to your app before any database reads or writes.
+ *
+ * The cookie is read from the raw `Cookie` header rather than `ctx.cookies`
+ * so it's parsed (and its signature verified) the same way as in the other
+ * adapters.
+ * @param {ConsistencyOptions} [options] the databases to wait for, the
+ * secrets to verify the cookie with and whether to read the tx number from the
+ * cookie, the `LiteFS-Tx` header, or both
+ * @returns {Middleware} the middleware
+ */
+export function getTransactionalConsistencyMiddleware(
+	options?: ConsistencyOptions,
+): Middleware {
+	return async (ctx, next) => {
+		const result = await checkRequestForTransactionalConsistency(
+			getTxRequestHeaders(name => ctx.get(name), options),
+			options,
+		)
+		if (result.type === 'replay') return replay(ctx, result.flyReplayHeader)
+		if (result.type === 'delete-cookie') {
+			ctx.append('Set-Cookie', result.setCookieHeader)
+		}
+		await next()
+	}
+}
+
+/**
+ * This is a koa middleware that will set the transaction number cookie on
+ * the response object if the current instance is the primary instance.
+ *
+ * Unlike the express version, the cookie is set after the downstream
+ * middleware has finished (after `await next()`), so this can be applied to
+ * your app before the middleware that mutates the database.
+ *
+ * This should be used in conjunction with the `getTransactionalConsistencyMiddleware` middleware.
+ *
+ * The cookie is appended to the `Set-Cookie` header rather than set with
+ * `ctx.cookies.set`, because the cookie is `secure` by default and
+ * `ctx.cookies.set` throws for secure cookies over an unencrypted connection
+ * unless `app.proxy` is set (and Fly's proxy terminates TLS before koa).
+ *
+ * @param {ConsistencyOptions} [options] the databases to track in the cookie,
+ * the secrets to sign it with and whether to set the cookie, the `LiteFS-Tx`
+ * header, or both
+ * @returns {Middleware} the middleware
+ */
+export function getSetTxNumberMiddleware(
+	options?: ConsistencyOptions,
+): Middleware {
+	return async (ctx, next) => {
+		await next()
+		if (!mutationMethods.includes(ctx.method)) return
+		const { currentIsPrimary } = await getInstanceInfo(options?.litefsDir)
+		if (!currentIsPrimary) return
+
+		const { setCookieHeader, txHeader } = getTxResponseHeaders(
+			await getTxCookieValue(options),
+			options,
+		)
+		if (setCookieHeader) ctx.append('Set-Cookie', setCookieHeader)
+		if (txHeader) ctx.set(TXID_NUM_HEADER_NAME, txHeader)
+	}
+}
+
+/**
+ * This ensures that POST, PUT, PATCH, and DELETE requests are replayed to the
+ * primary instance if the current instance is not the primary instance to avoid
+ * writing to a non-primary database.
+ *
+ * @param {EnsurePrimaryOptions} [options] the directory where the .primary
+ * file is stored and the instrumentation hooks
+ * @returns {Middleware} the middleware
+ */
+export function getEnsurePrimaryMiddleware(
+	options?: EnsurePrimaryOptions,
+): Middleware {
+	return async (ctx, next) => {
+		if (mutationMethods.includes(ctx.method)) {
+			const { currentIsPrimary, primaryInstance } = await getInstanceInfo(
+				options?.litefsDir,
+			)
+			if (!currentIsPrimary) {
+				const target = replayToPrimary(primaryInstance, options)
+				return replay(ctx, buildFlyReplayHeader(target))
+			}
+		}
+		await next()
+	}
+}
@@ -0,0 +1,142 @@
+// this is the logging used by all utilities, which you can replace with your
+// own (pino compatible) logger
+
+/**
+ * The stable code of every event litefs-js logs. Use these to filter, sample
+ * or silence specific events.
+ *
+ * - `pos-file-missing`: the "-pos" file doesn't exist yet (normal on instances
+ *   that haven't received any transaction), the position is unknown
+ * - `pos-file-read-failed`: the "-pos" file couldn't be read or parsed, the
+ *   position is unknown
+ * - `tx-wait-timeout`: a replica didn't catch up to the client's tx number in
+ *   time and the request will be replayed to the primary
+ * - `invalid-tx-cookie`: the txnum cookie is malformed or its signature is
+ *   invalid, it will be deleted
+ * - `invalid-tx-header`: the `LiteFS-Tx` header is malformed or its signature
+ *   is invalid, it will be ignored
+ * - `client-tx-ahead-of-primary`: the client had a newer tx number than the
+ *   primary instance
+ * - `position-diverged`: the local position has the client's tx number but a
+ *   different checksum (the database was restored or the txid was reset)
+ * - `instances-lookup-failed`: the DNS lookup of all instances failed
+ * - `forward-failed`: forwarding a request to another instance failed or
+ *   timed out, a 502 (or 504) response is sent instead
+ * - `peer-lookup-failed`: no other replica in the region had caught up to the
+ *   client's tx number (or their positions couldn't be fetched), the request
+ *   will be replayed to the primary
+ * - `listener-failed`: an `onPrimaryChange` or `onTxAdvance` listener threw an
+ *   error (the other listeners are still called)
+ */
+export type LogCode =
+	| 'pos-file-missing'
+	| 'pos-file-read-failed'
+	| 'tx-wait-timeout'
+	| 'invalid-tx-cookie'
+	| 'invalid-tx-header'
+	| 'client-tx-ahead-of-primary'
+	| 'position-diverged'
+	| 'instances-lookup-failed'
+	| 'forward-failed'
+	| 'peer-lookup-failed'
+	| 'listener-failed'
+
+/**
+ * The structured fields of a log event. Every event has a `code`, the other
+ * fields depend on the event.
+ */
+export type LogFields = {
+	code: LogCode
+	/** the hostname of the instance the event is about */
+	instance?: string
+	/** the filename of the database the event is about */
+	databaseFilename?: string
+	/** the transaction number the client sent */
+	clientTx?: number
+	/** the transaction number of the local database */
+	currentTx?: number
+	/** how long (in milliseconds) the replica waited for replication */
+	waitedMs?: number
+	/** the invalid value sent by the client */
+	value?: string
+	error?: unknown
+}
+
+export type LogFn = (fields: LogFields, message: string) => void
+
+/**
+ * A logger with pino-compatible levels, so you can pass a pino (or pino child)
+ * logger directly.
+ */
+export type Logger = {
+	debug: LogFn
+	info: LogFn
+	warn: LogFn
+	error: LogFn
+}
+
+export type LoggerOptions = {
+	/**
+	 * the logger to use for this call. Defaults to the logger set with
+	 * `setLogger`.
+	 */
+	logger?: Logger
+}
+
+function logToConsole(log: (...args: Array<unknown>) => void): LogFn {
+	return ({ code, error, ...fields }, message) => {
+		const args: Array<unknown> = [`litefs-js [${code}]: ${message}`]
+		if (Object.keys(fields).length) args.push(fields)
+		if (error !== undefined) args.push(error)
+		log(...args)
+	}
+}
+
+/**
+ * The default logger. It writes warnings and errors to the console and
+ * ignores debug and info events.
+ */
+export const consoleLogger: Logger = {
+	debug: () => {},
+	info: () => {},
+	warn: logToConsole(console.warn),
+	error: logToConsole(console.error),
+}
+
+/**
+ * A logger that ignores every event.
+ */
+export const silentLogger: Logger = {
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+}
+
+let globalLogger: Logger = consoleLogger
+
+/**
+ * Sets the logger used by all utilities unless a `logger` is passed to the
+ * call.
+ *
+ * @param {Logger} logger the logger to use (use `silentLogger` to disable
+ * logging, or `consoleLogger` to restore the default)
+ * @example
+ * import pino from "pino";
+ * import { setLogger } from "litefs-js";
+ * ...
+ * setLogger(pino().child({ module: 'litefs' }))
+ * ...
+ */
+export function setLogger(logger: Logger): void {
+	globalLogger = logger
+}
+
+/**
+ * @param {LoggerOptions} [options]
+ *
+ * @returns {Logger} the logger passed in the options or the global logger
+ */
+export function getLogger({ logger }: LoggerOptions = {}): Logger {
+	return logger ?? globalLogger
+}
@@ -0,0 +1,204 @@
+// this is utilities for the Next.js App Router which doesn't allow for
+// throwing response objects, so we wrap route handlers and server actions
+import { getReplayResponse, withLiteFS } from './fetch.js'
+import {
+	checkRequestForTransactionalConsistency,
+	getInstanceInfo,
+	getTxCookieValue,
+	getTxRequestHeaders,
+	replayToPrimary,
+	serializeTxCookieValue,
+	TXID_NUM_COOKIE_NAME,
+	type ConsistencyOptions,
+} from './index.js'
+
+export { getReplayResponse } from './fetch.js'
+
+type RouteHandler<Context> = (
+	request: Request,
+	context: Context,
+) => Response | Promise<Response>
+
+const mutationMethods = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+/**
+ * Wraps a route handler (`route.ts`) with the full LiteFS flow:
+ * mutations are replayed to the primary instance, the transaction number from
+ * the client is checked for consistency and the transaction number cookie is
+ * set on responses to mutations once the handler is finished.
+ *
+ * @param {RouteHandler} handler your route handler
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * // app/api/todos/route.ts
+ * import { withLiteFSRoute } from "litefs-js/next";
+ * ...
+ * export const POST = withLiteFSRoute(async request => {
+ * 	// ... mutate the database
+ * 	return Response.json(todo)
+ * })
+ * ...
+ * @returns {RouteHandler} the wrapped route handler
+ */
+export function withLiteFSRoute<Context>(
+	handler: RouteHandler<Context>,
+	options?: ConsistencyOptions,
+): RouteHandler<Context> {
+	return (request, context) =>
+		withLiteFS(req => handler(req, context), options)(request)
+}
+
+/**
+ * Creates a Next.js middleware (`middleware.ts`) that replays mutations
+ * (including server actions, which are POST requests) to the primary instance
+ * and waits for the transaction number from the client to be up to date
+ * before the page or route is rendered.
+ *
+ * Server actions and server components can't respond with a fly-replay
+ * response themselves, so this middleware is what replays them. It reads the
+ * LiteFS files from the file system, so it needs the nodejs middleware
+ * runtime, which Next.js only supports since 15.5. The other helpers in this
+ * module work with Next.js 14 and later.
+ *
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * // middleware.ts
+ * import { litefsMiddleware } from "litefs-js/next";
+ *
+ * export const middleware = litefsMiddleware()
+ * export const config = { runtime: 'nodejs' }
+ * @returns {(request: Request) => Promise<Response>} the middleware
+ */
+export function litefsMiddleware(
+	options?: ConsistencyOptions,
+): (request: Request) => Promise<Response> {
+	return async request => {
+		const { NextResponse } = await import('next/server')
+		const isMutation = mutationMethods.includes(request.method)
+		const { currentIsPrimary, primaryInstance } = await getInstanceInfo(
+			options?.litefsDir,
+		)
+		if (isMutation && !currentIsPrimary) {
+			return getReplayResponse(replayToPrimary(primaryInstance, options))
+		}
+
+		const result = await checkRequestForTransactionalConsistency(
+			getTxRequestHeaders(name => request.headers.get(name), options),
+			options,
+		)
+		if (result.type === 'replay') {
+			return getReplayResponse(result.flyReplayHeader)
+		}
+
+		const response = NextResponse.next()
+		// mutations set a new tx number cookie once they're finished
+		if (result.type === 'delete-cookie' && !isMutation) {
+			response.headers.append('Set-Cookie', result.setCookieHeader)
+		}
+		return response
+	}
+}
+
+/**
+ * Sets the transaction number cookie with `next/headers`. This only works in
+ * server actions and route handlers (Next.js doesn't allow setting cookies
+ * while rendering).
+ *
+ * **NOTE**: It's very important that you do this *after* mutations to the
+ * database, otherwise you'll be setting the cookie to a value that is
+ * out of date.
+ *
+ * @param {ConsistencyOptions} [options]
+ * @returns {Promise<void>}
+ */
+export async function setTxCookie(options?: ConsistencyOptions): Promise<void> {
+	const { cookies } = await import('next/headers')
+	const value = await getTxCookieValue(options)
+	const cookieStore = await cookies()
+	const { name = TXID_NUM_COOKIE_NAME, ...cookieOptions } =
+		options?.cookie ?? {}
+	cookieStore.set(
+		name,
+		serializeTxCookieValue(value, { secrets: options?.secrets }),
+		{
+			path: '/',
+			httpOnly: true,
+			sameSite: 'lax',
+			secure: true,
+			...cookieOptions,
+		},
+	)
+}
+
+/**
+ * Wraps a server action so the transaction number cookie is set (with
+ * `next/headers`) once the action is finished.
+ *
+ * Server actions can't respond with a fly-replay response, so make sure
+ * `litefsMiddleware` replays them to the primary instance. If the action runs
+ * on a replica anyway, this throws an error instead of letting it write to a
+ * read-only database.
+ *
+ * @param {Function} action your server action
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * // app/actions.ts
+ * 'use server'
+ * import { withLiteFSAction } from "litefs-js/next";
+ *
+ * export const createTodo = withLiteFSAction(async (formData: FormData) => {
+ * 	// ... mutate the database
+ * })
+ * @returns {Function} the wrapped server action
+ */
+export function withLiteFSAction<Args extends Array<unknown>, Result>(
+	action: (...args: Args) => Promise<Result>,
+	options?: ConsistencyOptions,
+): (...args: Args) => Promise<Result> {
+	return async (...args) => {
+		const { currentIsPrimary, primaryInstance } = await getInstanceInfo(
+			options?.litefsDir,
+		)
+		if (!currentIsPrimary) {
+			throw new Error(
+				`litefs-js: a server action ran on a replica instance (the primary instance is ${primaryInstance}). Server actions cannot be replayed with fly-replay, use litefsMiddleware in your middleware.ts to replay them to the primary instance.`,
+			)
+		}
+		const result = await action(...args)
+		if ((options?.transport ?? 'cookie') !== 'header') {
+			await setTxCookie(options)
+		}
+		return result
+	}
+}
+
+/**
+ * Waits for the transaction number from the client (read with
+ * `next/headers`) to be up to date. This works in server components, which
+ * can neither replay the request nor delete the cookie, so it resolves to
+ * false if the replica didn't catch up in time and leaves it up to you to
+ * decide what to do (`litefsMiddleware` normally handles this before
+ * rendering).
+ *
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * // app/page.tsx
+ * import { waitForTransactionalConsistency } from "litefs-js/next";
+ *
+ * export default async function Page() {
+ * 	await waitForTransactionalConsistency()
+ * 	// ... read from the database
+ * }
+ * @returns {Promise<boolean>} whether the local database is up to date
+ */
+export async function waitForTransactionalConsistency(
+	options?: ConsistencyOptions,
+): Promise<boolean> {
+	const { headers } = await import('next/headers')
+	const requestHeaders = await headers()
+	const result = await checkRequestForTransactionalConsistency(
+		getTxRequestHeaders(name => requestHeaders.get(name), options),
+		options,
+	)
+	return result.type !== 'replay'
+}
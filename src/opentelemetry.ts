@@ -0,0 +1,92 @@
+// this is an instrumentation adapter for OpenTelemetry (requires the
+// @opentelemetry/api package)
+import {
+	metrics,
+	SpanStatusCode,
+	trace,
+	type Meter,
+	type Tracer,
+} from '@opentelemetry/api'
+import { type Instrumentation } from './instrumentation.js'
+
+export type OpenTelemetryInstrumentationOptions = {
+	/** the tracer to create spans with. Defaults to the global "litefs-js" tracer */
+	tracer?: Tracer
+	/** the meter to create instruments with. Defaults to the global "litefs-js" meter */
+	meter?: Meter
+}
+
+/**
+ * Creates instrumentation hooks that record OpenTelemetry metrics and spans:
+ *
+ * - `litefs.consistency_checks` (counter): consistency checks by `result`
+ *   (`ok`, `delete-cookie` or `replay`)
+ * - `litefs.replays` (counter): requests replayed to another instance by
+ *   `reason`
+ * - `litefs.tx_wait.timeouts` (counter): replicas that didn't catch up in time
+ * - `litefs.tx_wait.duration` (histogram, ms): how long replicas waited for
+ *   the client's transaction number
+ * - `litefs.wait_for_tx_number`, `litefs.get_tx_number` and
+ *   `litefs.get_position` spans around `waitForUpToDateTxNumber`,
+ *   `getTxNumber` and `getPosition`, as children of the active span
+ *
+ * @param {OpenTelemetryInstrumentationOptions} [options]
+ * @example
+ * import { setInstrumentation } from "litefs-js";
+ * import { createOpenTelemetryInstrumentation } from "litefs-js/opentelemetry";
+ * ...
+ * setInstrumentation(createOpenTelemetryInstrumentation())
+ * ...
+ * @returns {Instrumentation} the hooks to pass to `setInstrumentation` or the
+ * `instrumentation` option
+ */
+export function createOpenTelemetryInstrumentation({
+	tracer = trace.getTracer('litefs-js'),
+	meter = metrics.getMeter('litefs-js'),
+}: OpenTelemetryInstrumentationOptions = {}): Instrumentation {
+	const consistencyChecks = meter.createCounter('litefs.consistency_checks', {
+		description: 'Transactional consistency checks by result',
+	})
+	const replays = meter.createCounter('litefs.replays', {
+		description: 'Requests replayed to another instance by reason',
+	})
+	const txWaitTimeouts = meter.createCounter('litefs.tx_wait.timeouts', {
+		description: "Replicas that didn't catch up to the client's tx number",
+	})
+	const txWaitDuration = meter.createHistogram('litefs.tx_wait.duration', {
+		description: "How long replicas waited for the client's tx number",
+		unit: 'ms',
+	})
+
+	return {
+		consistencyCheck: ({ result }) => consistencyChecks.add(1, { result }),
+		replay: ({ reason }) => replays.add(1, { reason }),
+		txWait: ({ databaseFilename, waitedMs, timedOut }) => {
+			const attributes = { 'litefs.database': databaseFilename }
+			txWaitDuration.record(waitedMs, { ...attributes, timed_out: timedOut })
+			if (timedOut) txWaitTimeouts.add(1, attributes)
+		},
+		trace: (name, attributes, fn) =>
+			tracer.startActiveSpan(
+				name,
+				{
+					attributes: Object.fromEntries(
+						Object.entries(attributes).flatMap(([key, value]) =>
+							value === undefined ? [] : [[`litefs.${key}`, value]],
+						),
+					),
+				},
+				async span => {
+					try {
+						return await fn()
+					} catch (error: unknown) {
+						span.recordException(error as Error)
+						span.setStatus({ code: SpanStatusCode.ERROR })
+						throw error
+					} finally {
+						span.end()
+					}
+				},
+			),
+	}
+}
@@ -1,74 +1,167 @@
 // this is utilities for Remix which allows for throwing response objects
 import {
-	checkCookieForTransactionalConsistency,
+	checkReplicationHealth,
+	checkRequestForTransactionalConsistency,
 	getInstanceInfo,
-	getTxNumber,
-	getTxSetCookieHeader,
+	getPositionsReport,
+	getTxCookieValue,
+	getTxRequestHeaders,
+	getTxResponseHeaders,
+	replayToPrimary,
+	TXID_NUM_HEADER_NAME,
+	type ConsistencyOptions,
+	type DatabasesOptions,
+	type EnsurePrimaryOptions,
+	type HealthCheckOptions,
+	type LoggerOptions,
+	type ReplayTarget,
 } from './index.js'
+import { buildFlyReplayHeader, FLY_REPLAY_HEADER_NAME } from './fly-replay.js'
+import { getInstrumentation } from './instrumentation.js'
 
 export { getTxSetCookieHeader } from './index.js'
 
+const mutationMethods = ['POST', 'PUT', 'PATCH', 'DELETE']
+
 /**
  * If the current instance is the primary instance, then returns false.
- * Otherwise, this will throw a response object with a status code of 409 and
- * the fly-replay header set to the primary instance.
+ * Otherwise, this will throw a replay response (see `getReplayResponse`) for
+ * the primary instance.
+ * @param {EnsurePrimaryOptions & ReplayResponseOptions} [options] the
+ * directory where the .primary file is stored, the instrumentation hooks and
+ * the request to pick the replay response for
  * @returns {Promise<true>} if the current instance is the primary instance
  * @throws {Response} if the current instance is not the primary instance
  * @example
  * import { ensurePrimary } from "litefs-js/remix";
  * // in server-side code ...
- * await ensurePrimary();
+ * await ensurePrimary({ request });
  * ...
  */
-export async function ensurePrimary(): Promise<boolean> {
-	const { currentIsPrimary, primaryInstance } = await getInstanceInfo()
+export async function ensurePrimary(
+	options?: EnsurePrimaryOptions & ReplayResponseOptions,
+): Promise<boolean> {
+	const { currentIsPrimary, primaryInstance } = await getInstanceInfo(
+		options?.litefsDir,
+	)
 	if (currentIsPrimary) return true
 
-	throw getReplayResponse(primaryInstance)
+	throw getReplayResponse(replayToPrimary(primaryInstance, options), options)
 }
 
 /**
  * This will throw a fly replay response if the current instance is not the
  * given instance.
  *
- * @param instance the instance you want to ensure is currently running
+ * @param {string | ReplayTarget} instance the instance you want to ensure is
+ * currently running, or a replay target with an instance (to pass a `state`)
+ * @param {EnsurePrimaryOptions & ReplayResponseOptions} [options] the
+ * directory where the .primary file is stored, the instrumentation hooks and
+ * the request to pick the replay response for
  * @returns {Promise<true>} if the current instance is the given instance
  * @throws {Response} if the current instance is not the given instance
  */
-export async function ensureInstance(instance: string): Promise<true> {
-	const { currentInstance } = await getInstanceInfo()
-	if (instance === currentInstance) return true
+export async function ensureInstance(
+	instance: string | (ReplayTarget & { instance: string }),
+	options?: EnsurePrimaryOptions & ReplayResponseOptions,
+): Promise<true> {
+	const target = typeof instance === 'string' ? { instance } : instance
+	const { currentInstance } = await getInstanceInfo(options?.litefsDir)
+	if (target.instance === currentInstance) return true
+
+	getInstrumentation(options).replay?.({
+		reason: 'instance',
+		instance: target.instance,
+		target,
+	})
+	throw getReplayResponse(target, options)
+}
 
-	throw getReplayResponse(instance)
+export type ReplayResponseOptions = {
+	/**
+	 * the request that will be replayed. Without it, the replay response is a
+	 * redirect to "/"
+	 */
+	request?: Request
+	/**
+	 * throw an error instead of returning the replay response, because the
+	 * fly-replay header is only honored by the Fly proxy. Defaults to true when
+	 * process.env.NODE_ENV is "development"
+	 */
+	development?: boolean
+}
+
+/**
+ * Whether the request is made by Remix/React Router to call a loader or an
+ * action (single fetch ".data" requests, `?_data` requests and fetchers) or
+ * by `fetch` in the browser, rather than by a browser navigation.
+ */
+function isDataRequest(request: Request): boolean {
+	const url = new URL(request.url)
+	if (url.pathname.endsWith('.data') || url.searchParams.has('_data')) {
+		return true
+	}
+	const fetchMode = request.headers.get('Sec-Fetch-Mode')
+	return fetchMode !== null && fetchMode !== 'navigate'
 }
 
 /**
  * Creates a Response object that allows you to replay the request to a different
- * instance by its hostname.
+ * instance by its hostname. The response depends on the request:
+ *
+ * - data requests (single fetch ".data" requests, `?_data` requests, fetchers
+ *   and other `fetch` calls) get a 409, which Fly intercepts and which is
+ *   never followed as a redirect.
+ * - document requests get a 307 redirect to the original URL, which keeps the
+ *   method and body. With a redirect, Remix will simply forward the response
+ *   as you make it to the browser (otherwise you'd have to forward the headers
+ *   in each route that throws this response), and in our case the response
+ *   never makes it to the browser because Fly will intercept it due to the
+ *   fly-replay header.
+ * - without a request, it's a 302 redirect to "/".
  *
- * NOTE: this uses a redirect request because otherwise, you have to manually
- * forward the headers for document requests in each route that throws this
- * replay response which is easy to forget and a bit of a pain. With a redirect,
- * Remix will simply forward the response as you make it to the browser. And in
- * our case, the response never makes it to the browser because Fly will
- * intercept it due to the fly-replay header.
+ * In development, the fly-replay header is not honored, so this throws an
+ * error instead of silently redirecting.
  *
- * @param instance the instance you want to replay to
+ * @param {string | ReplayTarget} target the instance you want to replay to,
+ * or where to replay the request (a region, another app, etc.)
+ * @param {ReplayResponseOptions} [options] the request that will be replayed
  * @returns {Response} the response object you should send for Fly to intercept
  * and replay the request to the given instance.
+ * @throws {Error} in development
  * @example
  * import { getReplayResponse } from "litefs-js/remix";
  * // in server-side code ...
- * throw getReplayResponse('some-instance-hostname');
+ * throw getReplayResponse('some-instance-hostname', { request });
  * ...
  */
-export function getReplayResponse(instance: string): Response {
+export function getReplayResponse(
+	target: string | ReplayTarget,
+	{
+		request,
+		development = process.env.NODE_ENV === 'development',
+	}: ReplayResponseOptions = {},
+): Response {
+	const flyReplay = buildFlyReplayHeader(target)
+	if (development) {
+		throw new Error(
+			`litefs-js: this request must be replayed (${FLY_REPLAY_HEADER_NAME}: ${flyReplay}), but the fly-replay header is only honored by the Fly proxy. Make sure this instance is the primary in development, or pass development: false to send the replay response anyway.`,
+		)
+	}
+	if (request && isDataRequest(request)) {
+		return new Response(null, {
+			status: 409,
+			headers: { [FLY_REPLAY_HEADER_NAME]: flyReplay },
+		})
+	}
+	let location = '/'
+	if (request) {
+		const url = new URL(request.url)
+		location = `${url.pathname}${url.search}`
+	}
 	return new Response(null, {
-		status: 302,
-		headers: {
-			Location: '/',
-			'fly-replay': `instance=${instance}`,
-		},
+		status: request ? 307 : 302,
+		headers: { Location: location, [FLY_REPLAY_HEADER_NAME]: flyReplay },
 	})
 }
 
@@ -84,7 +177,13 @@ type ConsistencyResult =
  * number in the cookie is not up to date, then it will wait for a bit before continuing.
  * If it's still not up-to-date after waiting, then the response will be replayed from
  * the primary instance.
+ *
+ * Depending on `options.transport`, the transaction number is read from the
+ * txnum cookie, the `LiteFS-Tx` header, or both.
  * @param {Request} request the fetch request object
+ * @param {ConsistencyOptions & Pick<ReplayResponseOptions, 'development'>} [options]
+ * the databases to wait for, the secrets to verify the cookie with, where to
+ * read the tx number from and whether to throw instead of replaying
  * @example
  * import { handleTransactionalConsistency } from "litefs-js/remix";
  * ...
@@ -100,12 +199,17 @@ type ConsistencyResult =
  */
 export async function handleTransactionalConsistency(
 	request: Request,
+	options?: ConsistencyOptions & Pick<ReplayResponseOptions, 'development'>,
 ): Promise<ConsistencyResult> {
-	const result = await checkCookieForTransactionalConsistency(
-		request.headers.get('Cookie'),
+	const result = await checkRequestForTransactionalConsistency(
+		getTxRequestHeaders(name => request.headers.get(name), options),
+		options,
 	)
 	if (result.type === 'replay') {
-		throw getReplayResponse(result.instance)
+		throw getReplayResponse(result.target, {
+			request,
+			development: options?.development,
+		})
 	}
 	if (result.type === 'ok') return { type: 'ok' }
 	if (result.type === 'delete-cookie') {
@@ -119,8 +223,14 @@ export async function handleTransactionalConsistency(
  * is a mutation request if running on the primary instance. Normally this
  * should be used in the entry.server.ts file in both the default export as well as the handleDataRequest export.
  *
+ * Depending on `options.transport`, this sets the txnum cookie, the `LiteFS-Tx`
+ * header, or both.
+ *
  * @param {Request} request the fetch request object
  * @param {Headers} headers the response headers object
+ * @param {ConsistencyOptions} [options] the databases to track in the cookie,
+ * the secrets to sign it with and whether to set the cookie, the `LiteFS-Tx`
+ * header, or both
  * @example
  *  import { appendTxNumberCookie } from "litefs-js/remix";
  *  ...
@@ -144,12 +254,225 @@ export async function handleTransactionalConsistency(
 export async function appendTxNumberCookie(
 	request: Request,
 	headers: Headers,
+	options?: ConsistencyOptions,
 ): Promise<void> {
-	const mutationMethods = ['POST', 'PUT', 'PATCH', 'DELETE']
 	if (mutationMethods.includes(request.method)) {
-		const { currentIsPrimary } = await getInstanceInfo()
+		const { currentIsPrimary } = await getInstanceInfo(options?.litefsDir)
 		if (currentIsPrimary) {
-			headers.append('Set-Cookie', getTxSetCookieHeader(await getTxNumber()))
+			const { setCookieHeader, txHeader } = getTxResponseHeaders(
+				await getTxCookieValue(options),
+				options,
+			)
+			if (setCookieHeader) headers.append('Set-Cookie', setCookieHeader)
+			if (txHeader) headers.set(TXID_NUM_HEADER_NAME, txHeader)
 		}
 	}
 }
+
+/**
+ * Runs the LiteFS checks for a request: mutations must be handled by the
+ * primary and the client's transaction number must be up to date.
+ *
+ * @throws {Response} the replay response if the request must be replayed
+ */
+async function prepareRequest(
+	request: Request,
+	options?: ConsistencyOptions & Pick<ReplayResponseOptions, 'development'>,
+): Promise<ConsistencyResult> {
+	if (mutationMethods.includes(request.method)) {
+		await ensurePrimary({ ...options, request })
+	}
+	return handleTransactionalConsistency(request, options)
+}
+
+/**
+ * Appends the transaction number cookie to the headers if the request was a
+ * mutation, or the cookie deletion otherwise.
+ */
+async function appendLiteFSHeaders(
+	request: Request,
+	headers: Headers,
+	consistency: ConsistencyResult,
+	options?: ConsistencyOptions,
+): Promise<void> {
+	if (mutationMethods.includes(request.method)) {
+		await appendTxNumberCookie(request, headers, options)
+	} else if (consistency.type === 'delete-cookie') {
+		headers.append('Set-Cookie', consistency.setCookieHeader)
+	}
+}
+
+/**
+ * Copies the response (responses like `Response.redirect()` have immutable
+ * headers) and appends the LiteFS headers to it.
+ */
+async function finishResponse(
+	request: Request,
+	response: Response,
+	consistency: ConsistencyResult,
+	options?: ConsistencyOptions,
+): Promise<Response> {
+	const finished = new Response(response.body, response)
+	await appendLiteFSHeaders(request, finished.headers, consistency, options)
+	return finished
+}
+
+export type WithLiteFSOptions<Result, Data> = ConsistencyOptions &
+	Pick<ReplayResponseOptions, 'development'> & {
+		/**
+		 * The `data` utility of your framework (`data` from "react-router", or
+		 * `data` from "@remix-run/node" with single fetch), used to add the
+		 * cookie headers to loaders and actions that return data instead of a
+		 * Response. This keeps the data as is, so single fetch can serialize
+		 * what JSON can't (like Dates and Maps). Without it, the data is
+		 * returned as a JSON Response.
+		 */
+		data?: (value: Result, init: { headers: Headers }) => Data
+	}
+
+/**
+ * Wraps a loader or an action with the full LiteFS flow: mutations are
+ * replayed to the primary instance, the transaction number from the client is
+ * checked for consistency and the transaction number cookie is set on
+ * responses to mutations (including thrown responses, like redirects).
+ *
+ * If the cookie needs to be set (or deleted) and the loader or action returns
+ * data instead of a Response, the cookie is added with the `data` option, or
+ * the data is returned as a JSON Response if it's not set. Use
+ * `getLiteFSMiddleware` to leave the return values alone.
+ *
+ * @param {Function} loaderOrAction your loader or action
+ * @param {WithLiteFSOptions} [options]
+ * @example
+ * import { data } from "react-router";
+ * import { withLiteFS } from "litefs-js/remix";
+ * ...
+ * export const loader = withLiteFS(async () => ({ notes: await getNotes() }), {
+ * 	data,
+ * })
+ * ...
+ * @returns {Function} the wrapped loader or action
+ */
+export function withLiteFS<
+	Args extends { request: Request },
+	Result,
+	Data = Response,
+>(
+	loaderOrAction: (args: Args) => Result | Promise<Result>,
+	options?: WithLiteFSOptions<Result, Data>,
+): (args: Args) => Promise<Result | Response | Data> {
+	return async args => {
+		const { request } = args
+		const consistency = await prepareRequest(request, options)
+		const needsHeaders =
+			mutationMethods.includes(request.method) ||
+			consistency.type === 'delete-cookie'
+		let result
+		try {
+			result = await loaderOrAction(args)
+		} catch (error: unknown) {
+			if (error instanceof Response && needsHeaders) {
+				throw await finishResponse(request, error, consistency, options)
+			}
+			throw error
+		}
+		if (!needsHeaders) return result
+		if (result instanceof Response) {
+			return finishResponse(request, result, consistency, options)
+		}
+		if (options?.data) {
+			const headers = new Headers()
+			await appendLiteFSHeaders(request, headers, consistency, options)
+			return options.data(result, { headers })
+		}
+		return finishResponse(request, Response.json(result), consistency, options)
+	}
+}
+
+/**
+ * The shape of a React Router (v7) server middleware.
+ */
+export type ReactRouterMiddleware = (
+	args: { request: Request },
+	next: () => Promise<Response>,
+) => Promise<Response>
+
+/**
+ * Creates a React Router (v7) server middleware that applies the full LiteFS
+ * flow (see `withLiteFS`) to every document and data request, so you don't
+ * need to wrap each loader and action or touch entry.server.
+ *
+ * @param {ConsistencyOptions} [options]
+ * @example
+ * // app/root.tsx
+ * import { getLiteFSMiddleware } from "litefs-js/remix";
+ *
+ * export const unstable_middleware = [getLiteFSMiddleware()]
+ * @returns {ReactRouterMiddleware} the middleware
+ */
+export function getLiteFSMiddleware(
+	options?: ConsistencyOptions & Pick<ReplayResponseOptions, 'development'>,
+): ReactRouterMiddleware {
+	return async ({ request }, next) => {
+		let consistency
+		try {
+			consistency = await prepareRequest(request, options)
+		} catch (error: unknown) {
+			if (error instanceof Response) return error
+			throw error
+		}
+		const response = await next()
+		return finishResponse(request, response, consistency, options)
+	}
+}
+
+/**
+ * Creates a JSON Response with the replication status of the current instance,
+ * with a 503 status code if it's a replica that fell too far behind. Return
+ * this from the loader of your health check route.
+ *
+ * @param {HealthCheckOptions} [options] the databases to report and the
+ * thresholds that fail readiness
+ * @example
+ * // app/routes/healthz.ts
+ * import { getHealthCheckResponse } from "litefs-js/remix";
+ *
+ * export const loader = () => getHealthCheckResponse({ maxLagMs: 5000 })
+ * @returns {Promise<Response>} the health check response
+ */
+export async function getHealthCheckResponse(
+	options?: HealthCheckOptions,
+): Promise<Response> {
+	const { ok, reasons, status } = await checkReplicationHealth(options)
+	return new Response(JSON.stringify({ ok, reasons, ...status }), {
+		status: ok ? 200 : 503,
+		headers: {
+			'Content-Type': 'application/json',
+			'Cache-Control': 'no-store',
+		},
+	})
+}
+
+/**
+ * Creates a JSON Response with the positions of the databases of the current
+ * instance, for the `peers` option of the other instances. Return this from
+ * the loader of a resource route at `LITEFS_POSITIONS_PATH`.
+ *
+ * @param {DatabasesOptions & LoggerOptions} [options] the databases to report
+ * @example
+ * // app/routes/_litefs.positions.ts
+ * import { getPositionsResponse } from "litefs-js/remix";
+ *
+ * export const loader = () => getPositionsResponse()
+ * @returns {Promise<Response>} the positions response
+ */
+export async function getPositionsResponse(
+	options?: DatabasesOptions & LoggerOptions,
+): Promise<Response> {
+	return new Response(JSON.stringify(await getPositionsReport(options)), {
+		headers: {
+			'Content-Type': 'application/json',
+			'Cache-Control': 'no-store',
+		},
+	})
+}
@@ -0,0 +1,178 @@
+import http from 'http'
+import os from 'os'
+import assert from 'node:assert'
+import { test } from 'node:test'
+import {
+	createLiteFSAPIClient,
+	getInstanceInfo,
+	type LiteFSEvent,
+} from '../src/api'
+import { createLiteFS } from '../src/create'
+import { servers, sleep, waitFor } from './utils'
+
+type StubRoutes = Record<
+	string,
+	(req: http.IncomingMessage, res: http.ServerResponse) => void
+>
+
+async function createStubAPI(routes: StubRoutes) {
+	const requests: Array<string> = []
+	const server = http.createServer((req, res) => {
+		requests.push(`${req.method} ${req.url}`)
+		const route = routes[`${req.method} ${req.url}`]
+		if (route) return route(req, res)
+		res.writeHead(404).end('not found')
+	})
+	server.listen()
+	const port = await waitFor(() => (server.address() as any).port)
+	servers.add(server)
+	return { url: `http://localhost:${port}`, requests }
+}
+
+function json(body: unknown) {
+	return (_req: http.IncomingMessage, res: http.ServerResponse) => {
+		res.writeHead(200, { 'Content-Type': 'application/json' })
+		res.end(JSON.stringify(body))
+	}
+}
+
+await test('getInfo() returns the node info', async () => {
+	const info = {
+		id: '8D3A1C2B',
+		isPrimary: false,
+		candidate: true,
+		path: '/litefs',
+		primary: { hostname: 'primary-host' },
+	}
+	const { url } = await createStubAPI({ 'GET /info': json(info) })
+	assert.deepStrictEqual(await createLiteFSAPIClient({ url }).getInfo(), info)
+})
+
+await test('events() turns the event stream into an async iterator', async () => {
+	const events: Array<LiteFSEvent> = [
+		{ type: 'init', data: { isPrimary: false, hostname: 'primary-host' } },
+		{
+			type: 'tx',
+			db: 'app.db',
+			data: {
+				txID: '0000000000000002',
+				postApplyChecksum: 'b4c2a1e3f5d6a7b8',
+				pageSize: 4096,
+				commit: 2,
+				timestamp: '2026-01-01T00:00:00Z',
+			},
+		},
+		{ type: 'primaryChange', data: { isPrimary: true } },
+	]
+	const { url } = await createStubAPI({
+		'GET /events': async (_req, res) => {
+			res.writeHead(200, { 'Content-Type': 'application/x-ndjson' })
+			const body = events.map(event => JSON.stringify(event) + '\n').join('')
+			// split an event across chunks to make sure lines are buffered
+			res.write(body.slice(0, 30))
+			await sleep(10)
+			res.end(body.slice(30))
+		},
+	})
+	const received: Array<LiteFSEvent> = []
+	for await (const event of createLiteFSAPIClient({ url }).events()) {
+		received.push(event)
+	}
+	assert.deepStrictEqual(received, events)
+})
+
+await test('events() ends when the signal is aborted', async () => {
+	const { url } = await createStubAPI({
+		'GET /events': (_req, res) => {
+			res.writeHead(200, { 'Content-Type': 'application/x-ndjson' })
+			res.write(
+				JSON.stringify({ type: 'init', data: { isPrimary: true } }) + '\n',
+			)
+			// keep the stream open like LiteFS does
+		},
+	})
+	const controller = new AbortController()
+	const received: Array<LiteFSEvent> = []
+	for await (const event of createLiteFSAPIClient({ url }).events({
+		signal: controller.signal,
+	})) {
+		received.push(event)
+		controller.abort()
+	}
+	assert.deepStrictEqual(received, [
+		{ type: 'init', data: { isPrimary: true } },
+	])
+})
+
+await test('promote() and handoff() call the API', async () => {
+	const ok = (_req: http.IncomingMessage, res: http.ServerResponse) =>
+		res.writeHead(200).end()
+	const { url, requests } = await createStubAPI({
+		'POST /promote': ok,
+		'POST /handoff?id=8D3A1C2B': ok,
+	})
+	const client = createLiteFSAPIClient({ url })
+	await client.promote()
+	await client.handoff('8D3A1C2B')
+	assert.deepStrictEqual(requests, [
+		'POST /promote',
+		'POST /handoff?id=8D3A1C2B',
+	])
+})
+
+await test('API errors are thrown with the status and body', async () => {
+	const { url } = await createStubAPI({
+		'POST /promote': (_req, res) =>
+			res.writeHead(400).end('node is not a candidate\n'),
+	})
+	await assert.rejects(() => createLiteFSAPIClient({ url }).promote(), {
+		message:
+			'litefs-js: POST /promote failed with 400: node is not a candidate',
+	})
+})
+
+await test('getInstanceInfo() reads the primary from the API', async () => {
+	const { url } = await createStubAPI({
+		'GET /info': json({
+			id: '1',
+			isPrimary: false,
+			candidate: true,
+			path: '/litefs',
+			primary: { hostname: 'primary-host' },
+		}),
+	})
+	assert.deepStrictEqual(await getInstanceInfo({ url }), {
+		primaryInstance: 'primary-host',
+		currentInstance: os.hostname(),
+		currentIsPrimary: false,
+	})
+
+	const litefs = createLiteFS({ getInstanceInfoSource: 'api', api: { url } })
+	assert.strictEqual((await litefs.getInstanceInfo()).currentIsPrimary, false)
+})
+
+await test('getInstanceInfo() considers the current instance the primary when the node is primary', async () => {
+	const { url } = await createStubAPI({
+		'GET /info': json({ id: '1', isPrimary: true, candidate: true, path: '/' }),
+	})
+	assert.deepStrictEqual(await getInstanceInfo({ url }), {
+		primaryInstance: os.hostname(),
+		currentInstance: os.hostname(),
+		currentIsPrimary: true,
+	})
+})
+
+await test('getInstanceInfo() throws when the node is not the primary and there is no primary', async () => {
+	const { url } = await createStubAPI({
+		'GET /info': json({
+			id: '1',
+			isPrimary: false,
+			candidate: true,
+			path: '/',
+		}),
+	})
+	await assert.rejects(() => getInstanceInfo({ url }), {
+		message:
+			'litefs-js: the LiteFS API reports that there is no primary instance right now',
+	})
+})
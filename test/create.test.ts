@@ -0,0 +1,111 @@
+import * as cookie from 'cookie'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import assert from 'node:assert'
+import { test } from 'node:test'
+import { createLiteFS } from '../src/create'
+import { tmpdir } from './utils'
+
+async function setupLiteFSDir(
+	name: string,
+	{ primary, txNumber }: { primary: string; txNumber: number },
+) {
+	const litefsDir = path.join(tmpdir, name)
+	await fs.promises.mkdir(litefsDir, { recursive: true })
+	await fs.promises.writeFile(path.join(litefsDir, '.primary'), primary)
+	await fs.promises.writeFile(
+		path.join(litefsDir, 'app.db-pos'),
+		`${txNumber.toString(16)}/0`,
+	)
+	return litefsDir
+}
+
+function clearEnv() {
+	delete process.env.LITEFS_DIR
+	delete process.env.DATABASE_FILENAME
+	delete process.env.FLY_APP_NAME
+	delete process.env.INTERNAL_PORT
+	delete process.env.PORT
+}
+
+await test('createLiteFS() binds the configuration without reading process.env', async () => {
+	const litefsDir = await setupLiteFSDir('create-primary', {
+		primary: os.hostname(),
+		txNumber: 12,
+	})
+	clearEnv()
+	const litefs = createLiteFS({
+		litefsDir,
+		databaseFilename: 'app.db',
+		appName: 'my-app',
+		internalPort: '8081',
+	})
+	assert.strictEqual((await litefs.getInstanceInfo()).currentIsPrimary, true)
+	assert.strictEqual(litefs.getInstanceInfoSync().currentIsPrimary, true)
+	assert.strictEqual(await litefs.getTxNumber(), 12)
+	assert.strictEqual(
+		litefs.getInternalInstanceDomain('abc123'),
+		'http://abc123.vm.my-app.internal:8081',
+	)
+})
+
+await test('createLiteFS() supports several configurations in one process', async () => {
+	const primaryDir = await setupLiteFSDir('create-a', {
+		primary: os.hostname(),
+		txNumber: 1,
+	})
+	const replicaDir = await setupLiteFSDir('create-b', {
+		primary: 'otherhost',
+		txNumber: 1,
+	})
+	clearEnv()
+	const primary = createLiteFS({
+		litefsDir: primaryDir,
+		databaseFilename: 'app.db',
+	})
+	const replica = createLiteFS({
+		litefsDir: replicaDir,
+		databaseFilename: 'app.db',
+		timeouts: { timeoutMs: 20 },
+	})
+	const cookieHeader = cookie.serialize('txnum', '2')
+	assert.strictEqual(
+		(await primary.checkCookieForTransactionalConsistency(cookieHeader)).type,
+		'delete-cookie',
+	)
+	const start = Date.now()
+	const result =
+		await replica.checkCookieForTransactionalConsistency(cookieHeader)
+	assert.strictEqual(result.type, 'replay')
+	assert.ok(Date.now() - start < 400)
+})
+
+await test('createLiteFS() uses the configured cookie name and attributes', async () => {
+	const litefsDir = await setupLiteFSDir('create-cookie', {
+		primary: os.hostname(),
+		txNumber: 3,
+	})
+	clearEnv()
+	const litefs = createLiteFS({
+		litefsDir,
+		databaseFilename: 'app.db',
+		cookie: { name: 'my-txnum', domain: 'example.com' },
+	})
+	const headers = new Headers()
+	await litefs.remix.appendTxNumberCookie(
+		new Request('http://localhost:3000', { method: 'POST' }),
+		headers,
+	)
+	const cookies = cookie.parse(headers.get('Set-Cookie')!)
+	assert.strictEqual(cookies['my-txnum'], '3/0')
+	assert.strictEqual(cookies.Domain, 'example.com')
+
+	const result = await litefs.checkCookieForTransactionalConsistency(
+		cookie.serialize('my-txnum', '3'),
+	)
+	assert.strictEqual(result.type, 'delete-cookie')
+	if (result.type === 'delete-cookie') {
+		assert.ok(result.setCookieHeader.startsWith('my-txnum='))
+	}
+})
@@ -1,17 +1,27 @@
+import os from 'os'
 import * as cookie from 'cookie'
+import express from 'express'
 import assert from 'node:assert'
 import { it, describe, beforeEach } from 'node:test'
 import {
 	getEnsurePrimaryMiddleware,
+	getHealthCheckMiddleware,
 	getSetTxNumberMiddleware,
 	getTransactionalConsistencyMiddleware,
+	litefsPolicy,
+	skipTxNumberOnHeaders,
 } from '../src/express'
-import { TXID_NUM_COOKIE_NAME } from '../src'
+import {
+	FORWARDED_HEADER_NAME,
+	TXID_NUM_COOKIE_NAME,
+	TXID_NUM_HEADER_NAME,
+} from '../src'
 import {
 	createServer,
 	setupPrimary,
 	setupReplica,
 	setupTxNumber,
+	setupLag,
 	sleep,
 	hasOwn,
 } from './utils'
@@ -53,6 +63,16 @@ describe(async () => {
 		app.post(otherCookieRoute, (_req, res) => {
 			res.send('ok')
 		})
+		app.post('/mutate', async (_req, res) => {
+			await setupTxNumber(7)
+			res.send('ok')
+		})
+		app.post('/stream', async (_req, res) => {
+			skipTxNumberOnHeaders(res)
+			res.write('o')
+			await setupTxNumber(8)
+			res.end('k')
+		})
 	})
 
 	await it('getTransactionalConsistencyMiddleware() proceeds when on primary', async () => {
@@ -164,7 +184,25 @@ describe(async () => {
 		assert.equal(response.status, 200)
 		assert.notEqual(response.headers.get('Set-Cookie'), null)
 		const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
-		assert.equal(cookies[TXID_NUM_COOKIE_NAME], '1')
+		assert.equal(cookies[TXID_NUM_COOKIE_NAME], '1/0')
+	})
+
+	await it('getSetTxNumberMiddleware() sets the tx number after the route handler mutates', async () => {
+		await setupPrimary()
+		await setupTxNumber(1)
+		const response = await fetch(`/mutate`, { method: 'POST' })
+		assert.equal(response.status, 200)
+		const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+		assert.equal(cookies[TXID_NUM_COOKIE_NAME], '7/0')
+	})
+
+	await it('getSetTxNumberMiddleware() can be skipped for streaming responses', async () => {
+		await setupPrimary()
+		await setupTxNumber(1)
+		const response = await fetch(`/stream`, { method: 'POST' })
+		assert.equal(response.status, 200)
+		assert.equal(await response.text(), 'ok')
+		assert.equal(response.headers.get('Set-Cookie'), null)
 	})
 
 	await it('getSetTxNumberMiddleware() does not override other cookies', async () => {
@@ -180,7 +218,7 @@ describe(async () => {
 		const other = allCookies.find(v => hasOwn(v, otherCookieKey))
 		assert.ok(txnum)
 		assert.ok(other)
-		assert.equal(txnum[TXID_NUM_COOKIE_NAME], txNum.toString())
+		assert.equal(txnum[TXID_NUM_COOKIE_NAME], `${txNum}/0`)
 		assert.equal(other[otherCookieKey], otherCookieValue)
 	})
 
@@ -206,7 +244,7 @@ describe(async () => {
 		assert.ok(txnum)
 		assert.ok(other)
 		assert.ok(anotherOther)
-		assert.equal(txnum[TXID_NUM_COOKIE_NAME], txNum.toString())
+		assert.equal(txnum[TXID_NUM_COOKIE_NAME], `${txNum}/0`)
 		assert.equal(other[otherCookieKey], otherCookieValue)
 		assert.equal(anotherOther[anotherOtherCookieName], anotherOtherCookieValue)
 	})
@@ -224,3 +262,250 @@ describe(async () => {
 		assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
 	})
 })
+
+describe('header transport', async () => {
+	let app: Awaited<ReturnType<typeof createServer>>['app'],
+		fetch: Awaited<ReturnType<typeof createServer>>['fetch']
+
+	beforeEach(async () => {
+		const server = await createServer()
+		app = server.app
+		fetch = server.fetch
+		app.use(getTransactionalConsistencyMiddleware({ transport: 'header' }))
+		app.use(getSetTxNumberMiddleware({ transport: 'header' }))
+		app.get('/', (_req, res) => {
+			res.send('ok')
+		})
+		app.post('/', (_req, res) => {
+			res.send('ok')
+		})
+	})
+
+	await it('getSetTxNumberMiddleware() sets the LiteFS-Tx header instead of the cookie', async () => {
+		await setupPrimary()
+		await setupTxNumber(4)
+		const response = await fetch(`/`, { method: 'POST' })
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get('Set-Cookie'), null)
+		assert.equal(response.headers.get(TXID_NUM_HEADER_NAME), '4/0')
+	})
+
+	await it('getTransactionalConsistencyMiddleware() replays on replica if the LiteFS-Tx header is ahead', async () => {
+		const primary = await setupReplica()
+		await setupTxNumber(2)
+		const response = await fetch(`/`, {
+			headers: { [TXID_NUM_HEADER_NAME]: '3' },
+		})
+		assert.equal(response.status, 409)
+		assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+	})
+
+	await it('getTransactionalConsistencyMiddleware() proceeds on replica if the LiteFS-Tx header is up to date', async () => {
+		await setupReplica()
+		await setupTxNumber(3)
+		const response = await fetch(`/`, {
+			headers: { [TXID_NUM_HEADER_NAME]: '3' },
+		})
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get('Set-Cookie'), null)
+	})
+})
+
+describe('policies', async () => {
+	let app: Awaited<ReturnType<typeof createServer>>['app'],
+		fetch: Awaited<ReturnType<typeof createServer>>['fetch']
+
+	beforeEach(async () => {
+		const server = await createServer()
+		app = server.app
+		fetch = server.fetch
+		app.use('/search', litefsPolicy({ requirePrimary: false }))
+		app.use(
+			getEnsurePrimaryMiddleware({
+				methods: ['POST', 'PUT', 'PATCH', 'DELETE'],
+				predicate: req => req.get('x-read-only') === undefined,
+			}),
+		)
+		app.use(getTransactionalConsistencyMiddleware({ exclude: ['/assets'] }))
+		app.use(getSetTxNumberMiddleware({ include: [/^\/api\//] }))
+		app.get('/assets/app.js', (_req, res) => {
+			res.send('ok')
+		})
+		app.post('/search', (_req, res) => {
+			res.send('ok')
+		})
+		app.post('/api/notes', (_req, res) => {
+			res.send('ok')
+		})
+		app.post('/other', (_req, res) => {
+			res.send('ok')
+		})
+		app.get(
+			'/track-visit',
+			litefsPolicy({ requirePrimary: true }),
+			(_req, res) => {
+				res.send('ok')
+			},
+		)
+	})
+
+	await it('litefsPolicy() lets a route opt out of getEnsurePrimaryMiddleware()', async () => {
+		await setupReplica()
+		const response = await fetch('/search', { method: 'POST' })
+		assert.equal(response.status, 200)
+	})
+
+	await it('litefsPolicy() makes a GET route require the primary', async () => {
+		const primary = await setupReplica()
+		const response = await fetch('/track-visit')
+		assert.equal(response.status, 409)
+		assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+	})
+
+	await it('litefsPolicy() sets the tx number on routes that require the primary', async () => {
+		await setupPrimary()
+		await setupTxNumber(2)
+		const response = await fetch('/track-visit')
+		assert.equal(response.status, 200)
+		const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+		assert.equal(cookies[TXID_NUM_COOKIE_NAME], '2/0')
+	})
+
+	await it('getEnsurePrimaryMiddleware() skips requests the predicate rejects', async () => {
+		await setupReplica()
+		const response = await fetch('/other', {
+			method: 'POST',
+			headers: { 'x-read-only': 'true' },
+		})
+		assert.equal(response.status, 200)
+	})
+
+	await it('getTransactionalConsistencyMiddleware() skips excluded paths', async () => {
+		await setupReplica()
+		await setupTxNumber(1)
+		const response = await fetch('/assets/app.js', {
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '5') },
+		})
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get('fly-replay'), null)
+	})
+
+	await it('getSetTxNumberMiddleware() only sets the tx number on included paths', async () => {
+		await setupPrimary()
+		await setupTxNumber(3)
+		const included = await fetch('/api/notes', { method: 'POST' })
+		const cookies = cookie.parse(included.headers.get('Set-Cookie')!)
+		assert.equal(cookies[TXID_NUM_COOKIE_NAME], '3/0')
+		const other = await fetch('/other', { method: 'POST' })
+		assert.equal(other.headers.get('Set-Cookie'), null)
+	})
+})
+
+describe('forwarding', async () => {
+	let fetch: Awaited<ReturnType<typeof createServer>>['fetch'],
+		primaryOrigin: string
+
+	beforeEach(async () => {
+		const primary = await createServer()
+		primaryOrigin = primary.origin
+		primary.app.post('/echo', express.text({ type: '*/*' }), (req, res) => {
+			res.cookie('primary', 'yes')
+			res.status(201).json({
+				method: req.method,
+				url: req.url,
+				body: req.body,
+				forwardedBy: req.get(FORWARDED_HEADER_NAME),
+			})
+		})
+		primary.app.post('/slow', async (_req, res) => {
+			await sleep(200)
+			res.send('too late')
+		})
+
+		const server = await createServer()
+		fetch = server.fetch
+		server.app.use(
+			getEnsurePrimaryMiddleware({
+				forward: { getInstanceOrigin: () => primaryOrigin, timeoutMs: 100 },
+			}),
+		)
+	})
+
+	await it('getEnsurePrimaryMiddleware() forwards mutations to the primary', async () => {
+		await setupReplica()
+		const response = await fetch('/echo?a=1', {
+			method: 'POST',
+			headers: { 'content-type': 'text/plain' },
+			body: 'hello',
+		})
+		assert.equal(response.status, 201)
+		assert.equal(response.headers.get('fly-replay'), null)
+		assert.match(response.headers.get('Set-Cookie') ?? '', /primary=yes/)
+		assert.deepStrictEqual(await response.json(), {
+			method: 'POST',
+			url: '/echo?a=1',
+			body: 'hello',
+			forwardedBy: os.hostname(),
+		})
+	})
+
+	await it('getEnsurePrimaryMiddleware() does not forward requests twice', async () => {
+		await setupReplica()
+		const response = await fetch('/echo', {
+			method: 'POST',
+			headers: { [FORWARDED_HEADER_NAME]: 'another-instance' },
+		})
+		assert.equal(response.status, 508)
+	})
+
+	await it('getEnsurePrimaryMiddleware() responds with 504 when the primary is too slow', async () => {
+		await setupReplica()
+		const response = await fetch('/slow', { method: 'POST' })
+		assert.equal(response.status, 504)
+	})
+
+	await it('getEnsurePrimaryMiddleware() responds with 502 when the primary is unreachable', async () => {
+		await setupReplica()
+		primaryOrigin = 'http://localhost:1'
+		const response = await fetch('/echo', { method: 'POST' })
+		assert.equal(response.status, 502)
+	})
+})
+
+describe('health check', async () => {
+	let app: Awaited<ReturnType<typeof createServer>>['app'],
+		fetch: Awaited<ReturnType<typeof createServer>>['fetch']
+
+	beforeEach(async () => {
+		const server = await createServer()
+		app = server.app
+		fetch = server.fetch
+		app.get('/healthz', getHealthCheckMiddleware({ maxLagMs: 1000 }))
+	})
+
+	await it('getHealthCheckMiddleware() reports the replication status as JSON', async () => {
+		const primary = await setupReplica()
+		await setupTxNumber(5)
+		const response = await fetch('/healthz')
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get('Cache-Control'), 'no-store')
+		const body = await response.json()
+		assert.equal(body.ok, true)
+		assert.equal(body.role, 'replica')
+		assert.equal(body.primaryInstance, primary)
+		assert.equal(body.databases['test.db'].txNumber, 5)
+	})
+
+	await it('getHealthCheckMiddleware() fails readiness when the replica lags behind', async () => {
+		await setupReplica()
+		await setupTxNumber(5)
+		await setupLag(1500)
+		const response = await fetch('/healthz')
+		assert.equal(response.status, 503)
+		const body = await response.json()
+		assert.equal(body.ok, false)
+		assert.deepEqual(body.reasons, [
+			'replication lag of 1500ms is above 1000ms',
+		])
+	})
+})
@@ -0,0 +1,130 @@
+import * as cookie from 'cookie'
+import Fastify, { type FastifyInstance } from 'fastify'
+import assert from 'node:assert'
+import os from 'os'
+import { it, describe, beforeEach, afterEach } from 'node:test'
+import { litefsPlugin } from '../src/fastify'
+import { TXID_NUM_COOKIE_NAME, TXID_NUM_HEADER_NAME } from '../src'
+import { setupPrimary, setupReplica, setupTxNumber } from './utils'
+
+describe(async () => {
+	let app: FastifyInstance
+
+	beforeEach(async () => {
+		app = Fastify()
+		await app.register(litefsPlugin)
+		app.get('/', async () => 'ok')
+		app.post('/', async () => 'ok')
+		app.get('/instance', async request => request.litefs)
+	})
+
+	afterEach(async () => {
+		await app.close()
+	})
+
+	await it('decorates the request with the instance info', async () => {
+		const primary = await setupReplica()
+		const response = await app.inject({ url: '/instance' })
+		assert.equal(response.statusCode, 200)
+		assert.deepEqual(response.json(), {
+			primaryInstance: primary,
+			currentInstance: os.hostname(),
+			currentIsPrimary: false,
+		})
+	})
+
+	await it('proceeds when on primary', async () => {
+		await setupPrimary()
+		const response = await app.inject({ url: '/' })
+		assert.equal(response.statusCode, 200)
+		assert.equal(response.headers['fly-replay'], undefined)
+	})
+
+	await it('deletes an invalid txnum cookie', async () => {
+		await setupPrimary()
+		const response = await app.inject({
+			url: '/',
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, 'invalid') },
+		})
+		assert.equal(response.statusCode, 200)
+		const setCookieHeader = response.headers['set-cookie']
+		assert.ok(typeof setCookieHeader === 'string')
+		const cookies = cookie.parse(setCookieHeader)
+		assert.equal(cookies.Expires, new Date(0).toUTCString())
+	})
+
+	await it('replays on replica if it takes too long for up-to-date txnum', async () => {
+		const primary = await setupReplica()
+		await setupTxNumber(2)
+		const response = await app.inject({
+			url: '/',
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3') },
+		})
+		assert.equal(response.statusCode, 409)
+		assert.equal(response.headers['fly-replay'], `instance=${primary}`)
+	})
+
+	await it('replays mutations to the primary on replica', async () => {
+		const primary = await setupReplica()
+		const response = await app.inject({ url: '/', method: 'POST' })
+		assert.equal(response.statusCode, 409)
+		assert.equal(response.headers['fly-replay'], `instance=${primary}`)
+		assert.equal(response.headers['set-cookie'], undefined)
+	})
+
+	await it('replays mutations to the primary without waiting for the txnum', async () => {
+		const primary = await setupReplica()
+		await setupTxNumber(2)
+		const start = Date.now()
+		const response = await app.inject({
+			url: '/',
+			method: 'POST',
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3') },
+		})
+		assert.equal(response.statusCode, 409)
+		assert.equal(response.headers['fly-replay'], `instance=${primary}`)
+		// the consistency check would have waited for the 500ms timeout
+		assert.ok(Date.now() - start < 400)
+	})
+
+	await it('sets the tx number cookie after mutations on primary', async () => {
+		await setupPrimary()
+		await setupTxNumber(1)
+		const response = await app.inject({ url: '/', method: 'POST' })
+		assert.equal(response.statusCode, 200)
+		const setCookieHeader = response.headers['set-cookie']
+		assert.ok(typeof setCookieHeader === 'string')
+		assert.equal(cookie.parse(setCookieHeader)[TXID_NUM_COOKIE_NAME], '1/0')
+	})
+
+	await it('does not set the tx number cookie on get requests', async () => {
+		await setupPrimary()
+		await setupTxNumber(1)
+		const response = await app.inject({ url: '/' })
+		assert.equal(response.statusCode, 200)
+		assert.equal(response.headers['set-cookie'], undefined)
+	})
+})
+
+describe('header transport', async () => {
+	let app: FastifyInstance
+
+	beforeEach(async () => {
+		app = Fastify()
+		await app.register(litefsPlugin, { transport: 'header' })
+		app.post('/', async () => 'ok')
+	})
+
+	afterEach(async () => {
+		await app.close()
+	})
+
+	await it('sets the LiteFS-Tx header after mutations on primary', async () => {
+		await setupPrimary()
+		await setupTxNumber(5)
+		const response = await app.inject({ url: '/', method: 'POST' })
+		assert.equal(response.statusCode, 200)
+		assert.equal(response.headers['set-cookie'], undefined)
+		assert.equal(response.headers[TXID_NUM_HEADER_NAME.toLowerCase()], '5/0')
+	})
+})
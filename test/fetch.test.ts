@@ -0,0 +1,148 @@
+import * as cookie from 'cookie'
+import { Hono } from 'hono'
+import assert from 'node:assert'
+import os from 'os'
+import { test } from 'node:test'
+import { withLiteFS } from '../src/fetch'
+import { litefs } from '../src/hono'
+import {
+	FORWARDED_HEADER_NAME,
+	TXID_NUM_COOKIE_NAME,
+	TXID_NUM_HEADER_NAME,
+} from '../src'
+import { setupPrimary, setupReplica, setupTxNumber } from './utils'
+
+const handler = withLiteFS(() => new Response('ok'))
+
+await test('withLiteFS() calls the handler when on primary', async () => {
+	await setupPrimary()
+	const response = await handler(new Request('http://localhost:3000'))
+	assert.equal(response.status, 200)
+	assert.equal(await response.text(), 'ok')
+	assert.equal(response.headers.get('fly-replay'), null)
+})
+
+await test('withLiteFS() replays mutations to the primary on replica', async () => {
+	const primary = await setupReplica()
+	const response = await handler(
+		new Request('http://localhost:3000', { method: 'POST' }),
+	)
+	assert.equal(response.status, 409)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('withLiteFS() replays on replica if it takes too long for up-to-date txnum', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(2)
+	const response = await handler(
+		new Request('http://localhost:3000', {
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3') },
+		}),
+	)
+	assert.equal(response.status, 409)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('withLiteFS() deletes the txnum cookie once the replica is up to date', async () => {
+	await setupReplica()
+	await setupTxNumber(3)
+	const response = await handler(
+		new Request('http://localhost:3000', {
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3') },
+		}),
+	)
+	assert.equal(response.status, 200)
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies.Expires, new Date(0).toUTCString())
+})
+
+await test('withLiteFS() forwards mutations to the primary with the forward option', async () => {
+	const primary = await setupReplica()
+	const forwarded: Array<Request> = []
+	const forwardingHandler = withLiteFS(() => new Response('replica'), {
+		forward: {
+			getInstanceOrigin: instance => `http://${instance}.internal:8081`,
+			fetch: async (input, init) => {
+				forwarded.push(new Request(input, init))
+				return new Response('primary', { status: 201 })
+			},
+		},
+	})
+	const response = await forwardingHandler(
+		new Request('http://localhost:3000/notes?draft=1', {
+			method: 'POST',
+			headers: { 'content-type': 'text/plain' },
+			body: 'hello',
+		}),
+	)
+	assert.equal(response.status, 201)
+	assert.equal(await response.text(), 'primary')
+	assert.equal(response.headers.get('fly-replay'), null)
+	const [request] = forwarded
+	assert.equal(request?.url, `http://${primary}.internal:8081/notes?draft=1`)
+	assert.equal(request?.method, 'POST')
+	assert.equal(await request?.text(), 'hello')
+	assert.equal(request?.headers.get(FORWARDED_HEADER_NAME), os.hostname())
+})
+
+await test('withLiteFS() sets the txnum cookie on mutations after the handler runs', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const mutatingHandler = withLiteFS(async () => {
+		await setupTxNumber(2)
+		return Response.redirect('http://localhost:3000/done', 303)
+	})
+	const response = await mutatingHandler(
+		new Request('http://localhost:3000', { method: 'POST' }),
+	)
+	assert.equal(response.status, 303)
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies[TXID_NUM_COOKIE_NAME], '2/0')
+})
+
+await test('litefs() hono middleware sets the txnum cookie on mutations', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const app = new Hono()
+	app.use(litefs())
+	app.post('/', c => c.text('ok'))
+	const response = await app.request('/', { method: 'POST' })
+	assert.equal(response.status, 200)
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies[TXID_NUM_COOKIE_NAME], '1/0')
+})
+
+await test('litefs() hono middleware sets the txnum cookie on responses with immutable headers', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const app = new Hono()
+	app.use(litefs())
+	app.post('/', () => Response.redirect('http://localhost:3000/done', 303))
+	const response = await app.request('/', { method: 'POST' })
+	assert.equal(response.status, 303)
+	assert.equal(response.headers.get('Location'), 'http://localhost:3000/done')
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies[TXID_NUM_COOKIE_NAME], '1/0')
+})
+
+await test('litefs() hono middleware replays mutations to the primary on replica', async () => {
+	const primary = await setupReplica()
+	const app = new Hono()
+	app.use(litefs())
+	app.post('/', () => assert.fail('handler should not be called'))
+	const response = await app.request('/', { method: 'POST' })
+	assert.equal(response.status, 409)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('litefs() hono middleware sets the LiteFS-Tx header when the transport is header', async () => {
+	await setupPrimary()
+	await setupTxNumber(7)
+	const app = new Hono()
+	app.use(litefs({ transport: 'header' }))
+	app.post('/', c => c.json({ ok: true }))
+	const response = await app.request('/', { method: 'POST' })
+	assert.equal(response.status, 200)
+	assert.equal(response.headers.get('Set-Cookie'), null)
+	assert.equal(response.headers.get(TXID_NUM_HEADER_NAME), '7/0')
+})
@@ -0,0 +1,109 @@
+import assert from 'node:assert'
+import { test } from 'node:test'
+import {
+	buildFlyReplayHeader,
+	checkRequestForTransactionalConsistency,
+	parseFlyReplayHeader,
+	parseFlyReplaySrcHeader,
+} from '../src'
+import { getEnsurePrimaryMiddleware } from '../src/express'
+import { ensureInstance, ensurePrimary } from '../src/remix'
+import { createServer, setupReplica, setupTxNumber } from './utils'
+
+await test('buildFlyReplayHeader() builds headers for every kind of target', () => {
+	assert.equal(buildFlyReplayHeader('abc123'), 'instance=abc123')
+	assert.equal(
+		buildFlyReplayHeader({ instance: 'abc123', state: 'retry' }),
+		'instance=abc123;state=retry',
+	)
+	assert.equal(
+		buildFlyReplayHeader({ region: 'sjc', app: 'other-app' }),
+		'region=sjc;app=other-app',
+	)
+	assert.equal(buildFlyReplayHeader({ elsewhere: true }), 'elsewhere=true')
+})
+
+await test('buildFlyReplayHeader() rejects invalid targets', () => {
+	assert.throws(() => buildFlyReplayHeader({}), /needs an instance/)
+	assert.throws(() => buildFlyReplayHeader({ state: 'x' }), /needs an instance/)
+	assert.throws(
+		() => buildFlyReplayHeader({ region: 'sjc', state: 'a;b' }),
+		/cannot contain ";"/,
+	)
+})
+
+await test('parseFlyReplayHeader() parses what buildFlyReplayHeader() builds', () => {
+	const target = {
+		instance: 'abc123',
+		region: 'sjc',
+		app: 'other-app',
+		elsewhere: true,
+		state: 'a=b',
+	}
+	assert.deepStrictEqual(
+		parseFlyReplayHeader(buildFlyReplayHeader(target)),
+		target,
+	)
+	assert.deepStrictEqual(parseFlyReplayHeader(' region=ams ; unknown=1'), {
+		region: 'ams',
+	})
+})
+
+await test('parseFlyReplaySrcHeader() parses the source of replayed requests', () => {
+	assert.deepStrictEqual(
+		parseFlyReplaySrcHeader(
+			'instance=abc123;region=sjc;t=1700000000000000;state=retry',
+		),
+		{
+			instance: 'abc123',
+			region: 'sjc',
+			timestamp: 1700000000000000,
+			state: 'retry',
+		},
+	)
+	assert.deepStrictEqual(parseFlyReplaySrcHeader('t=soon'), {})
+})
+
+await test('replays carry the replayState to the primary', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(1)
+	const result = await checkRequestForTransactionalConsistency(
+		{ txHeader: '2' },
+		{ transport: 'header', timeoutMs: 20, replayState: 'stale-read' },
+	)
+	assert.equal(result.type, 'replay')
+	if (result.type === 'replay') {
+		assert.deepStrictEqual(result.target, {
+			instance: primary,
+			state: 'stale-read',
+		})
+		assert.equal(result.flyReplayHeader, `instance=${primary};state=stale-read`)
+	}
+
+	const response = await ensurePrimary({ replayState: 'write' }).catch(r => r)
+	assert.equal(
+		response.headers.get('fly-replay'),
+		`instance=${primary};state=write`,
+	)
+
+	const { app, fetch } = await createServer()
+	app.use(getEnsurePrimaryMiddleware({ replayState: 'write' }))
+	const expressResponse = await fetch('/', { method: 'POST' })
+	assert.equal(expressResponse.status, 409)
+	assert.equal(
+		expressResponse.headers.get('fly-replay'),
+		`instance=${primary};state=write`,
+	)
+})
+
+await test('ensureInstance() accepts a replay target', async () => {
+	await setupReplica()
+	const response = await ensureInstance({
+		instance: 'other-instance',
+		state: 'pinned',
+	}).catch(r => r)
+	assert.equal(
+		response.headers.get('fly-replay'),
+		'instance=other-instance;state=pinned',
+	)
+})
@@ -0,0 +1,498 @@
+import os from 'os'
+import path from 'path'
+import fs from 'fs'
+import dns from 'dns'
+import assert from 'node:assert'
+import { mock, test } from 'node:test'
+import * as cookie from 'cookie'
+import {
+	clearInstancesCache,
+	checkCookieForTransactionalConsistency,
+	checkReplicationHealth,
+	comparePositions,
+	consoleLogger,
+	createTxCache,
+	getPosition,
+	getPositionsReport,
+	getReplicationStatus,
+	getTxCookieValueSync,
+	getTxRequestHeaders,
+	getTxResponseHeaders,
+	onPrimaryChange,
+	onTxAdvance,
+	setLogger,
+	silentLogger,
+	TXID_NUM_COOKIE_NAME,
+	TXID_NUM_HEADER_NAME,
+	waitForUpToDateTxNumber,
+	watchInstanceInfo,
+	type LogFields,
+	type PrimaryChangeEvent,
+	type TxAdvanceEvent,
+} from '../src'
+import {
+	setupLag,
+	setupPrimary,
+	setupReplica,
+	setupTxNumber,
+	sleep,
+	tmpdir,
+	waitFor,
+} from './utils'
+
+await test('waitForUpToDateTxNumber() resolves true right away if the tx number is up to date', async () => {
+	await setupReplica()
+	await setupTxNumber(3)
+	assert.strictEqual(await waitForUpToDateTxNumber(3), true)
+})
+
+await test('waitForUpToDateTxNumber() resolves false if it times out', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const start = Date.now()
+	const result = await waitForUpToDateTxNumber(2, { timeoutMs: 50 })
+	assert.strictEqual(result, false)
+	assert.ok(Date.now() - start >= 50)
+})
+
+await test('waitForUpToDateTxNumber() resolves when the -pos file changes without waiting for the interval', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const start = Date.now()
+	const resultPromise = waitForUpToDateTxNumber(2, {
+		timeoutMs: 2000,
+		intervalMs: 1000,
+	})
+	await sleep(10)
+	await setupTxNumber(2)
+	assert.strictEqual(await resultPromise, true)
+	assert.ok(Date.now() - start < 1000)
+})
+
+await test('waitForUpToDateTxNumber() resolves each concurrent waiter when its tx number is reached', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const resolved: Array<number> = []
+	const waiters = [2, 3, 4].map(txNumber =>
+		waitForUpToDateTxNumber(txNumber, { timeoutMs: 300 }).then(result => {
+			if (result) resolved.push(txNumber)
+			return result
+		}),
+	)
+	await sleep(10)
+	await setupTxNumber(3)
+	await waitFor(() => (resolved.length >= 2 ? resolved : null))
+	assert.deepStrictEqual([...resolved].sort(), [2, 3])
+	assert.deepStrictEqual(await Promise.all(waiters), [true, true, false])
+})
+
+await test('waitForUpToDateTxNumber() honors the litefsDir and databaseFilename options while waiting', async () => {
+	const litefsDir = path.join(tmpdir, 'other-litefs-dir')
+	const databaseFilename = 'other.db'
+	const posFile = path.join(litefsDir, `${databaseFilename}-pos`)
+	await fs.promises.mkdir(litefsDir, { recursive: true })
+	await fs.promises.writeFile(posFile, '1/0')
+	await setupTxNumber(0)
+	const resultPromise = waitForUpToDateTxNumber(2, {
+		litefsDir,
+		databaseFilename,
+		timeoutMs: 500,
+	})
+	await sleep(10)
+	await fs.promises.writeFile(posFile, '2/0')
+	assert.strictEqual(await resultPromise, true)
+})
+
+await test('watchInstanceInfo() caches the instance info and updates it when .primary changes', async () => {
+	await setupPrimary()
+	const watcher = watchInstanceInfo()
+	try {
+		assert.strictEqual(watcher.getInstanceInfo().currentIsPrimary, true)
+		const primary = await setupReplica()
+		await waitFor(() =>
+			watcher.getInstanceInfo().primaryInstance === primary ? true : null,
+		)
+		assert.strictEqual(watcher.getInstanceInfo().currentIsPrimary, false)
+	} finally {
+		watcher.close()
+	}
+})
+
+await test('onPrimaryChange() emits typed events for primary changes', async () => {
+	await setupReplica()
+	const events: Array<PrimaryChangeEvent> = []
+	const unsubscribe = onPrimaryChange(event => events.push(event))
+	try {
+		await fs.promises.writeFile(path.join(tmpdir, '.primary'), 'anotherhost')
+		await waitFor(() => (events.length === 1 ? true : null))
+		await setupPrimary()
+		await waitFor(() => (events.length === 2 ? true : null))
+		await fs.promises.rm(path.join(tmpdir, '.primary'))
+		await sleep(50)
+		await setupReplica()
+		await waitFor(() => (events.length === 3 ? true : null))
+	} finally {
+		unsubscribe()
+	}
+	assert.deepStrictEqual(
+		events.map(e => e.type),
+		['primary-changed', 'gained-primary', 'lost-primary'],
+	)
+	assert.strictEqual(events[0].previous.primaryInstance, 'otherhost')
+	assert.strictEqual(events[0].current.primaryInstance, 'anotherhost')
+	assert.strictEqual(events[1].current.primaryInstance, os.hostname())
+	assert.strictEqual(events[2].current.primaryInstance, 'otherhost')
+})
+
+await test('onPrimaryChange() keeps watching when a listener throws', async () => {
+	await setupReplica()
+	const logged: Array<LogFields> = []
+	setLogger({ ...silentLogger, error: fields => logged.push(fields) })
+	const events: Array<PrimaryChangeEvent> = []
+	const unsubscribeThrowing = onPrimaryChange(() => {
+		throw new Error('listener failed')
+	})
+	const unsubscribe = onPrimaryChange(event => events.push(event))
+	try {
+		await fs.promises.writeFile(path.join(tmpdir, '.primary'), 'anotherhost')
+		await waitFor(() => (events.length === 1 ? true : null))
+		await setupPrimary()
+		await waitFor(() => (events.length === 2 ? true : null))
+	} finally {
+		unsubscribeThrowing()
+		unsubscribe()
+		setLogger(consoleLogger)
+	}
+	assert.ok(logged.length >= 2)
+	assert.ok(logged.every(fields => fields.code === 'listener-failed'))
+})
+
+await test('onTxAdvance() emits the previous and new position when it moves', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const events: Array<TxAdvanceEvent> = []
+	const unsubscribe = onTxAdvance(event => events.push(event))
+	try {
+		await setupTxNumber(3)
+		await waitFor(() => (events.length === 1 ? true : null))
+	} finally {
+		unsubscribe()
+	}
+	assert.deepStrictEqual(events, [
+		{
+			databaseFilename: 'test.db',
+			from: { txid: 1n, checksum: '0' },
+			to: { txid: 3n, checksum: '0' },
+		},
+	])
+
+	await setupTxNumber(4)
+	await sleep(150)
+	assert.strictEqual(events.length, 1)
+})
+
+await test('onTxAdvance() keeps watching when a listener throws', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const logged: Array<LogFields> = []
+	setLogger({ ...silentLogger, error: fields => logged.push(fields) })
+	const events: Array<TxAdvanceEvent> = []
+	const unsubscribeThrowing = onTxAdvance(
+		() => {
+			throw new Error('listener failed')
+		},
+		{ intervalMs: 10 },
+	)
+	const unsubscribe = onTxAdvance(event => events.push(event))
+	try {
+		await setupTxNumber(2)
+		await waitFor(() => (events.length === 1 ? true : null))
+		await setupTxNumber(3)
+		await waitFor(() => (events.length === 2 ? true : null))
+	} finally {
+		unsubscribeThrowing()
+		unsubscribe()
+		setLogger(consoleLogger)
+	}
+	assert.deepStrictEqual(
+		events.map(({ to }) => to.txid),
+		[2n, 3n],
+	)
+	assert.ok(logged.length >= 2)
+	assert.ok(logged.every(fields => fields.code === 'listener-failed'))
+})
+
+await test('createTxCache() drops its entries once the position moves', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const cache = createTxCache<string>({ intervalMs: 10 })
+	try {
+		let computed = 0
+		const compute = async () => `value ${++computed}`
+		assert.strictEqual(await cache.getOrSet('key', compute), 'value 1')
+		assert.strictEqual(await cache.getOrSet('key', compute), 'value 1')
+		cache.set('other', 'other value')
+		assert.strictEqual(cache.get('other'), 'other value')
+
+		await setupTxNumber(2)
+		await waitFor(() => (cache.get('other') === undefined ? true : null))
+		assert.strictEqual(cache.getPosition()?.txid, 2n)
+		assert.strictEqual(await cache.getOrSet('key', compute), 'value 2')
+
+		// values computed while the position moves aren't cached
+		const value = await cache.getOrSet('slow', async () => {
+			await setupTxNumber(3)
+			await waitFor(() => (cache.getPosition()?.txid === 3n ? true : null))
+			return 'stale'
+		})
+		assert.strictEqual(value, 'stale')
+		assert.strictEqual(cache.get('slow'), undefined)
+	} finally {
+		cache.close()
+	}
+})
+
+await test('getReplicationStatus() reports the role, position and lag of each database', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(4)
+	await setupLag(120)
+	const before = Date.now()
+	const status = await getReplicationStatus({
+		databaseFilenames: ['test.db', 'other.db'],
+	})
+	assert.strictEqual(status.role, 'replica')
+	assert.strictEqual(status.primaryInstance, primary)
+	assert.strictEqual(status.currentIsPrimary, false)
+	assert.strictEqual(status.lagMs, 120)
+	const { txNumber, lastAdvancedAt, msSinceLastAdvance } =
+		status.databases['test.db']
+	assert.strictEqual(txNumber, 4)
+	assert.ok(lastAdvancedAt instanceof Date)
+	assert.ok(
+		msSinceLastAdvance! >= 0 &&
+			msSinceLastAdvance! <= Date.now() - before + 1000,
+	)
+	assert.deepStrictEqual(status.databases['other.db'], {
+		txNumber: 0,
+		lastAdvancedAt: null,
+		msSinceLastAdvance: null,
+	})
+})
+
+await test('getReplicationStatus() reports a null lag when LiteFS does not report it', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	assert.strictEqual((await getReplicationStatus()).lagMs, null)
+})
+
+await test('checkReplicationHealth() fails replicas whose position has not advanced in time', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const past = new Date(Date.now() - 60_000)
+	await fs.promises.utimes(path.join(tmpdir, 'test.db-pos'), past, past)
+	const result = await checkReplicationHealth({ maxMsSinceLastAdvance: 30_000 })
+	assert.strictEqual(result.ok, false)
+	assert.deepStrictEqual(result.reasons, [
+		"test.db hasn't advanced in over 30000ms",
+	])
+	assert.strictEqual(
+		(await checkReplicationHealth({ maxMsSinceLastAdvance: 120_000 })).ok,
+		true,
+	)
+})
+
+async function setupPosition(position: string) {
+	await fs.promises.writeFile(path.join(tmpdir, 'test.db-pos'), position)
+}
+
+await test('getPosition() reads the txid as a bigint and the checksum', async () => {
+	await setupPosition('0020000000000001/A1B2C3D4E5F60718\n')
+	assert.deepStrictEqual(await getPosition(), {
+		txid: 0x20000000000001n,
+		checksum: 'a1b2c3d4e5f60718',
+	})
+})
+
+await test('getPosition() resolves null when the position is unknown', async () => {
+	assert.strictEqual(await getPosition(), null)
+	await setupPosition('garbage')
+	assert.strictEqual(await getPosition(), null)
+})
+
+await test('comparePositions() detects diverged positions', () => {
+	const current = { txid: 5n, checksum: 'abc' }
+	assert.strictEqual(comparePositions(current, { txid: 6n }), 'behind')
+	assert.strictEqual(comparePositions(current, { txid: 4n }), 'ahead')
+	assert.strictEqual(comparePositions(current, { txid: 5n }), 'equal')
+	assert.strictEqual(
+		comparePositions(current, { txid: 5n, checksum: 'abc' }),
+		'equal',
+	)
+	assert.strictEqual(
+		comparePositions(current, { txid: 5n, checksum: 'def' }),
+		'diverged',
+	)
+})
+
+await test('replicas replay right away when the position in the cookie diverged', async () => {
+	const primary = await setupReplica()
+	await setupPosition('0000000000000005/00000000000000aa')
+	const start = Date.now()
+	const result = await checkCookieForTransactionalConsistency(
+		cookie.serialize(TXID_NUM_COOKIE_NAME, '5/00000000000000bb'),
+		{ timeoutMs: 2000 },
+	)
+	assert.deepStrictEqual(result, {
+		type: 'replay',
+		flyReplayHeader: `instance=${primary}`,
+		target: { instance: primary },
+		instance: primary,
+		reason: 'position-diverged',
+	})
+	assert.ok(Date.now() - start < 1000)
+})
+
+await test('replicas compare positions without precision loss', async () => {
+	await setupReplica()
+	await setupPosition('0020000000000000/0')
+	// 2^53 + 1 can't be represented as a number
+	const result = await checkCookieForTransactionalConsistency(
+		cookie.serialize(TXID_NUM_COOKIE_NAME, '9007199254740993'),
+		{ timeoutMs: 20 },
+	)
+	assert.strictEqual(result.type, 'replay')
+})
+
+await test('the primary deletes cookies with a diverged position', async () => {
+	await setupPrimary()
+	await setupPosition('0000000000000005/00000000000000aa')
+	const result = await checkCookieForTransactionalConsistency(
+		cookie.serialize(TXID_NUM_COOKIE_NAME, '5/00000000000000bb'),
+	)
+	assert.strictEqual(result.type, 'delete-cookie')
+})
+
+await test('getTxCookieValueSync() reads the positions synchronously', async () => {
+	await setupPosition('0000000000000003/00000000000000aa')
+	assert.deepStrictEqual(getTxCookieValueSync(), {
+		txid: 3n,
+		checksum: '00000000000000aa',
+	})
+	assert.deepStrictEqual(
+		getTxCookieValueSync({ databaseFilenames: ['test.db', 'other.db'] }),
+		{ 'test.db': { txid: 3n, checksum: '00000000000000aa' }, 'other.db': 0 },
+	)
+})
+
+await test('getPositionsReport() reports the position of every database', async () => {
+	await setupTxNumber(3)
+	assert.deepStrictEqual(
+		await getPositionsReport({ databaseFilenames: ['test.db', 'other.db'] }),
+		{
+			instance: os.hostname(),
+			positions: { 'test.db': '3/0', 'other.db': null },
+		},
+	)
+})
+
+function setupPeers(positions: Record<string, string>) {
+	clearInstancesCache()
+	mock.method(dns.promises, 'resolveTxt', async () => [
+		[`${Object.keys(positions).join(' sjc,')} sjc,far-away ams`],
+	])
+	const requestedUrls: Array<string> = []
+	const fetchPositions = async (url: string | URL | Request) => {
+		requestedUrls.push(String(url))
+		const instance = new URL(String(url)).hostname.split('.')[0]
+		return Response.json({
+			instance,
+			positions: { 'test.db': positions[instance] },
+		})
+	}
+	const peers = {
+		region: 'sjc',
+		appName: 'my-app',
+		port: '8081',
+		fetch: fetchPositions as typeof fetch,
+	}
+	return { peers, requestedUrls }
+}
+
+await test('replicas replay to a caught-up replica in the same region', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const { peers, requestedUrls } = setupPeers({
+		'peer-a': '1/0',
+		'peer-b': '2/0',
+	})
+	try {
+		const result = await checkCookieForTransactionalConsistency(
+			cookie.serialize(TXID_NUM_COOKIE_NAME, '2/0'),
+			{ timeoutMs: 20, peers },
+		)
+		assert.deepStrictEqual(result, {
+			type: 'replay',
+			flyReplayHeader: 'instance=peer-b',
+			target: { instance: 'peer-b' },
+			instance: 'peer-b',
+			reason: 'tx-wait-timeout',
+		})
+		assert.deepStrictEqual(requestedUrls.sort(), [
+			'http://peer-a.vm.my-app.internal:8081/_litefs/positions',
+			'http://peer-b.vm.my-app.internal:8081/_litefs/positions',
+		])
+	} finally {
+		mock.restoreAll()
+	}
+})
+
+await test('replicas replay to the primary when no peer has caught up', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(1)
+	const { peers } = setupPeers({ 'peer-a': '1/0', 'peer-b': '2/1' })
+	try {
+		const result = await checkCookieForTransactionalConsistency(
+			cookie.serialize(TXID_NUM_COOKIE_NAME, '2/0'),
+			{ timeoutMs: 20, peers },
+		)
+		assert.strictEqual(result.type, 'replay')
+		if (result.type === 'replay') assert.strictEqual(result.instance, primary)
+	} finally {
+		mock.restoreAll()
+	}
+})
+
+await test('getTxResponseHeaders() creates the header values for the transport', () => {
+	assert.deepStrictEqual(Object.keys(getTxResponseHeaders(3)), [
+		'setCookieHeader',
+	])
+	assert.deepStrictEqual(getTxResponseHeaders(3, { transport: 'header' }), {
+		txHeader: '3',
+	})
+	const { setCookieHeader, txHeader } = getTxResponseHeaders(3, {
+		transport: 'both',
+		cookie: { name: 'tx' },
+	})
+	assert.strictEqual(cookie.parse(setCookieHeader!).tx, '3')
+	assert.strictEqual(txHeader, '3')
+})
+
+await test('getTxRequestHeaders() reads the header values for the transport', () => {
+	const headers: Record<string, string | Array<string>> = {
+		cookie: 'txnum=1',
+		[TXID_NUM_HEADER_NAME.toLowerCase()]: ['2', '3'],
+	}
+	const getHeader = (name: string) => headers[name.toLowerCase()]
+	assert.deepStrictEqual(getTxRequestHeaders(getHeader), {
+		cookieHeader: 'txnum=1',
+		txHeader: null,
+	})
+	assert.deepStrictEqual(
+		getTxRequestHeaders(getHeader, { transport: 'both' }),
+		{ cookieHeader: 'txnum=1', txHeader: '2' },
+	)
+	assert.deepStrictEqual(
+		getTxRequestHeaders(getHeader, { transport: 'header' }),
+		{ cookieHeader: null, txHeader: '2' },
+	)
+})
@@ -0,0 +1,193 @@
+import os from 'os'
+import assert from 'node:assert'
+import { test } from 'node:test'
+import {
+	broadcast,
+	clearInstancesCache,
+	getAllInstances,
+	getInstances,
+	getInstancesInRegion,
+	getPrimaryInstance,
+	silentLogger,
+	type InstanceResolver,
+	type LogFields,
+} from '../src'
+import { setupReplica, sleep } from './utils'
+
+function createResolver(txt: string, privateIps: Record<string, string> = {}) {
+	const lookups: Array<string> = []
+	const resolver: InstanceResolver = {
+		resolveTxt: async hostname => {
+			lookups.push(hostname)
+			return [[txt]]
+		},
+		resolve6: async hostname => {
+			const ip = privateIps[hostname.split('.')[0]!]
+			if (!ip) throw new Error(`no AAAA record for ${hostname}`)
+			return [ip]
+		},
+	}
+	return { resolver, lookups }
+}
+
+await test('getInstances() gives typed instances with their private IP and role', async () => {
+	const primary = await setupReplica()
+	const { resolver } = createResolver(`${primary} sjc,${os.hostname()} ams`, {
+		[primary]: 'fdaa:0:1::2',
+	})
+	assert.deepStrictEqual(await getInstances({ appName: 'my-app', resolver }), [
+		{ id: primary, region: 'sjc', privateIp: 'fdaa:0:1::2', isPrimary: true },
+		{ id: os.hostname(), region: 'ams', privateIp: null, isPrimary: false },
+	])
+})
+
+await test('getInstancesInRegion() and getPrimaryInstance() filter the instances', async () => {
+	const primary = await setupReplica()
+	const { resolver } = createResolver(
+		`${primary} sjc,replica-1 ams,replica-2 ams`,
+	)
+	const options = { appName: 'my-app', resolver }
+	assert.deepStrictEqual(
+		(await getInstancesInRegion('ams', options)).map(({ id }) => id),
+		['replica-1', 'replica-2'],
+	)
+	assert.equal((await getPrimaryInstance(options))?.id, primary)
+
+	const { resolver: withoutPrimary } = createResolver('replica-1 ams')
+	assert.equal(
+		await getPrimaryInstance({ appName: 'my-app', resolver: withoutPrimary }),
+		null,
+	)
+})
+
+await test('getAllInstances() caches the instances for cacheTtlMs', async () => {
+	const { resolver, lookups } = createResolver('abc123 sjc')
+	const options = { appName: 'my-app', resolver }
+	await getAllInstances(options)
+	await getInstances(options)
+	assert.deepStrictEqual(await getAllInstances(options), { abc123: 'sjc' })
+	assert.deepStrictEqual(lookups, ['vms.my-app.internal'])
+
+	await getAllInstances({ ...options, cacheTtlMs: 0 })
+	assert.equal(lookups.length, 2)
+
+	clearInstancesCache()
+	await getAllInstances(options)
+	assert.equal(lookups.length, 3)
+})
+
+await test('getAllInstances() falls back to the current instance and retries when the lookup fails', async () => {
+	const logged: Array<LogFields> = []
+	let fail = true
+	const resolver: InstanceResolver = {
+		resolveTxt: async () => {
+			if (fail) throw new Error('ENOTFOUND')
+			return [['abc123 sjc']]
+		},
+	}
+	const options = {
+		appName: 'my-app',
+		region: 'ams',
+		resolver,
+		logger: {
+			...silentLogger,
+			error: (fields: LogFields) => logged.push(fields),
+		},
+	}
+	assert.deepStrictEqual(await getAllInstances(options), {
+		[os.hostname()]: 'ams',
+	})
+	assert.equal(logged[0]?.code, 'instances-lookup-failed')
+
+	fail = false
+	assert.deepStrictEqual(await getAllInstances(options), { abc123: 'sjc' })
+})
+
+await test('broadcast() sends the request to every instance with a concurrency limit', async () => {
+	const { resolver } = createResolver('a sjc,b sjc,c ams,d ams')
+	let inFlight = 0
+	let maxInFlight = 0
+	const requests: Array<string> = []
+	const results = await broadcast(
+		'/_cache/purge',
+		{ method: 'POST', body: 'users' },
+		{
+			appName: 'my-app',
+			resolver,
+			concurrency: 2,
+			getInstanceOrigin: instance => `http://${instance}:8081`,
+			fetch: (async (url: string, init: RequestInit) => {
+				requests.push(`${init.method} ${url} ${init.body}`)
+				inFlight++
+				maxInFlight = Math.max(maxInFlight, inFlight)
+				await sleep(10)
+				inFlight--
+				if (url.startsWith('http://c:')) throw new Error('ECONNREFUSED')
+				return new Response(`purged ${url}`, { status: 202 })
+			}) as typeof fetch,
+		},
+	)
+	assert.equal(maxInFlight, 2)
+	assert.deepStrictEqual(requests.sort(), [
+		'POST http://a:8081/_cache/purge users',
+		'POST http://b:8081/_cache/purge users',
+		'POST http://c:8081/_cache/purge users',
+		'POST http://d:8081/_cache/purge users',
+	])
+	assert.deepStrictEqual(results.a, {
+		status: 202,
+		body: 'purged http://a:8081/_cache/purge',
+	})
+	assert.equal(results.c?.status, null)
+	assert.match(String(results.c?.error), /ECONNREFUSED/)
+})
+
+await test('broadcast() can skip the current instance and the primary', async () => {
+	const primary = await setupReplica()
+	const { resolver } = createResolver(
+		`${primary} sjc,${os.hostname()} sjc,replica-1 ams`,
+	)
+	const options = {
+		appName: 'my-app',
+		resolver,
+		fetch: (async () => new Response('ok')) as typeof fetch,
+		getInstanceOrigin: (instance: string) => `http://${instance}`,
+	}
+	assert.deepStrictEqual(
+		Object.keys(
+			await broadcast('/', {}, { ...options, replicasOnly: true }),
+		).sort(),
+		[os.hostname(), 'replica-1'].sort(),
+	)
+	assert.deepStrictEqual(
+		Object.keys(
+			await broadcast('/', {}, { ...options, skipCurrentInstance: true }),
+		).sort(),
+		[primary, 'replica-1'].sort(),
+	)
+})
+
+await test('broadcast() times out slow instances', async () => {
+	const { resolver } = createResolver('fast sjc,slow sjc')
+	const results = await broadcast('/stats', undefined, {
+		appName: 'my-app',
+		resolver,
+		timeoutMs: 20,
+		getInstanceOrigin: instance => `http://${instance}`,
+		fetch: (async (url: string, init: RequestInit) => {
+			if (url.startsWith('http://slow')) {
+				// a real request keeps the process alive until it's aborted
+				const keepAlive = setTimeout(() => {}, 1000)
+				await new Promise((_resolve, reject) =>
+					init.signal?.addEventListener('abort', () => {
+						clearTimeout(keepAlive)
+						reject(init.signal?.reason)
+					}),
+				)
+			}
+			return new Response('{}')
+		}) as typeof fetch,
+	})
+	assert.deepStrictEqual(results.fast, { status: 200, body: '{}' })
+	assert.equal((results.slow?.error as Error).name, 'TimeoutError')
+})
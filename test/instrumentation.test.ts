@@ -0,0 +1,185 @@
+import * as cookie from 'cookie'
+import assert from 'node:assert'
+import { test } from 'node:test'
+import type { Meter, Span, Tracer } from '@opentelemetry/api'
+import {
+	checkCookieForTransactionalConsistency,
+	getTxNumber,
+	setInstrumentation,
+	TXID_NUM_COOKIE_NAME,
+	waitForUpToDateTxNumber,
+	type Instrumentation,
+} from '../src'
+import { getEnsurePrimaryMiddleware } from '../src/express'
+import { createOpenTelemetryInstrumentation } from '../src/opentelemetry'
+import {
+	createServer,
+	setupPrimary,
+	setupReplica,
+	setupTxNumber,
+} from './utils'
+
+function createTestInstrumentation() {
+	const calls: Array<[string, unknown]> = []
+	const instrumentation: Instrumentation = {
+		consistencyCheck: event => calls.push(['consistencyCheck', event]),
+		replay: event => calls.push(['replay', event]),
+		txWait: event => calls.push(['txWait', event]),
+		trace: (name, attributes, fn) => {
+			calls.push(['trace', { name, attributes }])
+			return fn()
+		},
+	}
+	return { instrumentation, calls }
+}
+
+await test('consistency checks report their result and replays report the reason', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(1)
+	const { instrumentation, calls } = createTestInstrumentation()
+	const result = await checkCookieForTransactionalConsistency(
+		cookie.serialize(TXID_NUM_COOKIE_NAME, '2'),
+		{ instrumentation, timeoutMs: 20 },
+	)
+	assert.strictEqual(result.type, 'replay')
+	const events = calls.filter(([hook]) => hook !== 'trace')
+	assert.strictEqual(events.length, 3)
+	const [[, txWait], ...rest] = events
+	assert.strictEqual((txWait as { timedOut: boolean }).timedOut, true)
+	assert.deepStrictEqual(rest, [
+		['consistencyCheck', { result: 'replay' }],
+		[
+			'replay',
+			{
+				reason: 'tx-wait-timeout',
+				instance: primary,
+				target: { instance: primary },
+			},
+		],
+	])
+})
+
+await test('waitForUpToDateTxNumber() and getTxNumber() are traced', async () => {
+	await setupReplica()
+	await setupTxNumber(3)
+	const { instrumentation, calls } = createTestInstrumentation()
+	await waitForUpToDateTxNumber(2, { instrumentation })
+	await getTxNumber(undefined, undefined, { instrumentation })
+	assert.deepStrictEqual(calls, [
+		[
+			'trace',
+			{
+				name: 'litefs.wait_for_tx_number',
+				attributes: {
+					databaseFilename: 'test.db',
+					clientTx: 2,
+					timeoutMs: 500,
+				},
+			},
+		],
+		[
+			'txWait',
+			{
+				databaseFilename: 'test.db',
+				clientTx: 2,
+				waitedMs: 0,
+				timedOut: false,
+				diverged: false,
+			},
+		],
+		[
+			'trace',
+			{
+				name: 'litefs.get_tx_number',
+				attributes: { databaseFilename: 'test.db' },
+			},
+		],
+	])
+})
+
+await test('setInstrumentation() reports mutations replayed by the express middleware', async () => {
+	const primary = await setupReplica()
+	const { instrumentation, calls } = createTestInstrumentation()
+	setInstrumentation(instrumentation)
+	try {
+		const { app, fetch } = await createServer()
+		app.use(getEnsurePrimaryMiddleware())
+		app.post('/', (_req, res) => {
+			res.send('ok')
+		})
+		const response = await fetch('/', { method: 'POST' })
+		assert.strictEqual(response.status, 409)
+	} finally {
+		setInstrumentation({})
+	}
+	assert.deepStrictEqual(calls, [
+		[
+			'replay',
+			{
+				reason: 'not-primary',
+				instance: primary,
+				target: { instance: primary },
+			},
+		],
+	])
+})
+
+await test('createOpenTelemetryInstrumentation() records metrics and spans', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const recorded: Array<[string, number, unknown]> = []
+	const meter = {
+		createCounter: (name: string) => ({
+			add: (value: number, attributes: unknown) =>
+				recorded.push([name, value, attributes]),
+		}),
+		createHistogram: (name: string) => ({
+			record: (value: number, attributes: unknown) =>
+				recorded.push([name, value, attributes]),
+		}),
+	} as unknown as Meter
+	const spans: Array<{ name: string; options: unknown; ended: boolean }> = []
+	const tracer = {
+		startActiveSpan: (
+			name: string,
+			options: unknown,
+			fn: (span: Span) => unknown,
+		) => {
+			const span = { name, options, ended: false }
+			spans.push(span)
+			return fn({ end: () => (span.ended = true) } as unknown as Span)
+		},
+	} as unknown as Tracer
+	const instrumentation = createOpenTelemetryInstrumentation({ tracer, meter })
+
+	await checkCookieForTransactionalConsistency(
+		cookie.serialize(TXID_NUM_COOKIE_NAME, '1'),
+		{ instrumentation },
+	)
+	assert.deepStrictEqual(recorded, [
+		['litefs.consistency_checks', 1, { result: 'delete-cookie' }],
+	])
+	assert.deepStrictEqual(spans, [
+		{
+			name: 'litefs.get_position',
+			options: { attributes: { 'litefs.databaseFilename': 'test.db' } },
+			ended: true,
+		},
+	])
+
+	instrumentation.txWait?.({
+		databaseFilename: 'test.db',
+		clientTx: 2,
+		waitedMs: 500,
+		timedOut: true,
+		diverged: false,
+	})
+	assert.deepStrictEqual(recorded.slice(1), [
+		[
+			'litefs.tx_wait.duration',
+			500,
+			{ 'litefs.database': 'test.db', timed_out: true },
+		],
+		['litefs.tx_wait.timeouts', 1, { 'litefs.database': 'test.db' }],
+	])
+})
@@ -0,0 +1,93 @@
+import * as cookie from 'cookie'
+import Koa from 'koa'
+import type http from 'http'
+import assert from 'node:assert'
+import { it, describe, beforeEach } from 'node:test'
+import {
+	getEnsurePrimaryMiddleware,
+	getSetTxNumberMiddleware,
+	getTransactionalConsistencyMiddleware,
+} from '../src/koa'
+import { TXID_NUM_COOKIE_NAME } from '../src'
+import {
+	servers,
+	setupPrimary,
+	setupReplica,
+	setupTxNumber,
+	waitFor,
+} from './utils'
+
+async function createKoaServer(app: Koa) {
+	const server: http.Server = app.listen()
+	const port = await waitFor(() => (server.address() as any).port)
+	servers.add(server)
+	return (pathname: string, options?: RequestInit) =>
+		fetch(`http://localhost:${port}${pathname}`, options)
+}
+
+describe(async () => {
+	let fetch: Awaited<ReturnType<typeof createKoaServer>>
+
+	beforeEach(async () => {
+		const app = new Koa()
+		app.use(getEnsurePrimaryMiddleware())
+		app.use(getTransactionalConsistencyMiddleware())
+		app.use(getSetTxNumberMiddleware())
+		app.use(async ctx => {
+			if (ctx.method === 'POST') await setupTxNumber(5)
+			ctx.body = 'ok'
+		})
+		fetch = await createKoaServer(app)
+	})
+
+	await it('getTransactionalConsistencyMiddleware() proceeds when on primary', async () => {
+		await setupPrimary()
+		const response = await fetch(`/`)
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get('fly-replay'), null)
+	})
+
+	await it('getTransactionalConsistencyMiddleware() deletes an invalid txnum cookie', async () => {
+		await setupPrimary()
+		const response = await fetch(`/`, {
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, 'invalid') },
+		})
+		assert.equal(response.status, 200)
+		const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+		assert.equal(cookies.Expires, new Date(0).toUTCString())
+	})
+
+	await it('getTransactionalConsistencyMiddleware() replays on replica if it takes too long for up-to-date txnum', async () => {
+		const primary = await setupReplica()
+		await setupTxNumber(2)
+		const response = await fetch(`/`, {
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3') },
+		})
+		assert.equal(response.status, 409)
+		assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+	})
+
+	await it('getSetTxNumberMiddleware() sets the tx number after the handler has run', async () => {
+		await setupPrimary()
+		await setupTxNumber(1)
+		const response = await fetch(`/`, { method: 'POST' })
+		assert.equal(response.status, 200)
+		const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+		assert.equal(cookies[TXID_NUM_COOKIE_NAME], '5/0')
+	})
+
+	await it('getSetTxNumberMiddleware() does nothing on get requests', async () => {
+		await setupPrimary()
+		const response = await fetch(`/`)
+		assert.equal(response.status, 200)
+		assert.equal(response.headers.get('Set-Cookie'), null)
+	})
+
+	await it('getEnsurePrimaryMiddleware() returns 409 on replica', async () => {
+		const primary = await setupReplica()
+		const response = await fetch(`/`, { method: 'POST' })
+		assert.equal(response.status, 409)
+		assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+		assert.equal(response.headers.get('Set-Cookie'), null)
+	})
+})
@@ -0,0 +1,83 @@
+import * as cookie from 'cookie'
+import assert from 'node:assert'
+import { test } from 'node:test'
+import {
+	checkCookieForTransactionalConsistency,
+	consoleLogger,
+	getTxNumber,
+	setLogger,
+	TXID_NUM_COOKIE_NAME,
+	waitForUpToDateTxNumber,
+	type LogFields,
+	type Logger,
+} from '../src'
+import { setupPrimary, setupReplica, setupTxNumber } from './utils'
+
+function createTestLogger() {
+	const events: Array<{ level: keyof Logger } & LogFields> = []
+	const log =
+		(level: keyof Logger) =>
+		(fields: LogFields): void => {
+			events.push({ level, ...fields })
+		}
+	const logger: Logger = {
+		debug: log('debug'),
+		info: log('info'),
+		warn: log('warn'),
+		error: log('error'),
+	}
+	return { logger, events }
+}
+
+await test('a missing -pos file is logged at the debug level', async () => {
+	await setupReplica()
+	const { logger, events } = createTestLogger()
+	assert.strictEqual(await getTxNumber(undefined, undefined, { logger }), 0)
+	assert.deepStrictEqual(events, [
+		{ level: 'debug', code: 'pos-file-missing', databaseFilename: 'test.db' },
+	])
+})
+
+await test('timing out while waiting for the tx number logs structured fields', async () => {
+	await setupReplica()
+	await setupTxNumber(1)
+	const { logger, events } = createTestLogger()
+	await waitForUpToDateTxNumber(3, { timeoutMs: 20, logger })
+	assert.strictEqual(events.length, 1)
+	const [event] = events
+	assert.strictEqual(event.level, 'warn')
+	assert.strictEqual(event.code, 'tx-wait-timeout')
+	assert.strictEqual(event.clientTx, 3)
+	assert.strictEqual(event.currentTx, 1)
+	assert.ok(event.waitedMs! >= 20)
+})
+
+await test('invalid tx cookies are logged with their value', async () => {
+	await setupPrimary()
+	const { logger, events } = createTestLogger()
+	await checkCookieForTransactionalConsistency(
+		cookie.serialize(TXID_NUM_COOKIE_NAME, 'nope'),
+		{ logger },
+	)
+	assert.deepStrictEqual(events, [
+		{ level: 'warn', code: 'invalid-tx-cookie', value: 'nope' },
+	])
+})
+
+await test('setLogger() sets the logger used when none is passed', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const { logger, events } = createTestLogger()
+	setLogger(logger)
+	try {
+		await checkCookieForTransactionalConsistency(
+			cookie.serialize(TXID_NUM_COOKIE_NAME, '2'),
+		)
+	} finally {
+		setLogger(consoleLogger)
+	}
+	assert.strictEqual(events.length, 1)
+	assert.strictEqual(events[0].code, 'client-tx-ahead-of-primary')
+	assert.strictEqual(events[0].clientTx, 2)
+	assert.strictEqual(events[0].currentTx, 1)
+})
@@ -0,0 +1,193 @@
+import * as cookie from 'cookie'
+import assert from 'node:assert'
+import { register } from 'node:module'
+import { test } from 'node:test'
+import {
+	litefsMiddleware,
+	waitForTransactionalConsistency,
+	withLiteFSAction,
+	withLiteFSRoute,
+} from '../src/next'
+import {
+	getTxSetCookieHeader,
+	TXID_NUM_COOKIE_NAME,
+	TXID_NUM_HEADER_NAME,
+} from '../src'
+import { setupPrimary, setupReplica, setupTxNumber } from './utils'
+
+const context = { params: Promise.resolve({}) }
+
+// next/headers only works inside a Next.js request, so it's replaced by a
+// module that reads the request from globalThis.nextRequest
+const nextHeadersStub = `
+export const cookies = async () => globalThis.nextRequest.cookies
+export const headers = async () => globalThis.nextRequest.headers
+`
+register(
+	`data:text/javascript,${encodeURIComponent(`
+export async function resolve(specifier, context, nextResolve) {
+	if (specifier !== 'next/headers') return nextResolve(specifier, context)
+	return {
+		shortCircuit: true,
+		url: 'data:text/javascript,' + ${JSON.stringify(encodeURIComponent(nextHeadersStub))},
+	}
+}
+`)}`,
+)
+
+type CookieSet = {
+	name: string
+	value: string
+	options: cookie.SerializeOptions
+}
+
+function setupNextRequest(headers: HeadersInit = {}) {
+	const cookiesSet: Array<CookieSet> = []
+	Object.assign(globalThis, {
+		nextRequest: {
+			headers: new Headers(headers),
+			cookies: {
+				set: (name: string, value: string, options: cookie.SerializeOptions) =>
+					cookiesSet.push({ name, value, options }),
+			},
+		},
+	})
+	return cookiesSet
+}
+
+await test('withLiteFSRoute() replays mutations to the primary on replica', async () => {
+	const primary = await setupReplica()
+	const POST = withLiteFSRoute(() => assert.fail('handler should not run'))
+	const response = await POST(
+		new Request('http://localhost:3000/api', { method: 'POST' }),
+		context,
+	)
+	assert.equal(response.status, 409)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('withLiteFSRoute() passes the context and sets the txnum cookie after mutations', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const POST = withLiteFSRoute(async (_request, ctx: typeof context) => {
+		assert.equal(ctx, context)
+		await setupTxNumber(2)
+		return Response.json({ ok: true })
+	})
+	const response = await POST(
+		new Request('http://localhost:3000/api', { method: 'POST' }),
+		context,
+	)
+	assert.equal(response.status, 200)
+	assert.deepEqual(await response.json(), { ok: true })
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies[TXID_NUM_COOKIE_NAME], '2/0')
+})
+
+await test('litefsMiddleware() replays mutations (like server actions) to the primary on replica', async () => {
+	const primary = await setupReplica()
+	const middleware = litefsMiddleware()
+	const response = await middleware(
+		new Request('http://localhost:3000/', {
+			method: 'POST',
+			headers: { 'Next-Action': 'abc123' },
+		}),
+	)
+	assert.equal(response.status, 409)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('litefsMiddleware() replays on replica if it takes too long for up-to-date txnum', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(2)
+	const middleware = litefsMiddleware()
+	const response = await middleware(
+		new Request('http://localhost:3000/', {
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3') },
+		}),
+	)
+	assert.equal(response.status, 409)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('litefsMiddleware() continues and deletes the cookie once the replica is up to date', async () => {
+	await setupReplica()
+	await setupTxNumber(3)
+	const middleware = litefsMiddleware()
+	const response = await middleware(
+		new Request('http://localhost:3000/', {
+			headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3') },
+		}),
+	)
+	assert.equal(response.headers.get('x-middleware-next'), '1')
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies.Expires, new Date(0).toUTCString())
+})
+
+await test('withLiteFSAction() sets the txnum cookie with next/headers after the action', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const cookiesSet = setupNextRequest()
+	const action = withLiteFSAction(async (title: string) => {
+		await setupTxNumber(2)
+		return `created ${title}`
+	})
+	assert.equal(await action('todo'), 'created todo')
+	assert.deepStrictEqual(cookiesSet, [
+		{
+			name: TXID_NUM_COOKIE_NAME,
+			value: '2/0',
+			options: { path: '/', httpOnly: true, sameSite: 'lax', secure: true },
+		},
+	])
+})
+
+await test('withLiteFSAction() signs the cookie like getTxSetCookieHeader()', async () => {
+	await setupPrimary()
+	await setupTxNumber(4)
+	const cookiesSet = setupNextRequest()
+	const options = { secrets: 'secret', cookie: { name: 'tx', maxAge: 60 } }
+	await withLiteFSAction(async () => {}, options)()
+	const setCookieHeader = getTxSetCookieHeader(
+		{ txid: 4n, checksum: '0' },
+		{ ...options.cookie, secrets: options.secrets },
+	)
+	assert.equal(cookiesSet[0]?.name, 'tx')
+	assert.equal(cookiesSet[0]?.options.maxAge, 60)
+	assert.equal(cookie.parse(setCookieHeader).tx, cookiesSet[0]?.value)
+})
+
+await test('withLiteFSAction() refuses to run the action on a replica', async () => {
+	await setupReplica()
+	const cookiesSet = setupNextRequest()
+	const action = withLiteFSAction(async () => assert.fail('action ran'))
+	await assert.rejects(action(), /server action ran on a replica/)
+	assert.deepStrictEqual(cookiesSet, [])
+})
+
+await test('waitForTransactionalConsistency() waits for the txnum from next/headers', async () => {
+	await setupReplica()
+	await setupTxNumber(2)
+	setupNextRequest({ cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3') })
+	setTimeout(() => setupTxNumber(3), 20)
+	assert.equal(await waitForTransactionalConsistency(), true)
+
+	setupNextRequest({ cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '5') })
+	assert.equal(await waitForTransactionalConsistency({ timeoutMs: 50 }), false)
+})
+
+await test('waitForTransactionalConsistency() reads the LiteFS-Tx header with the header transport', async () => {
+	await setupReplica()
+	await setupTxNumber(2)
+	setupNextRequest({
+		cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '2'),
+		[TXID_NUM_HEADER_NAME]: '5',
+	})
+	assert.equal(
+		await waitForTransactionalConsistency({
+			transport: 'header',
+			timeoutMs: 50,
+		}),
+		false,
+	)
+})
@@ -1,14 +1,22 @@
 import { test } from 'node:test'
 import assert from 'node:assert'
 import * as cookie from 'cookie'
-import { setupPrimary, setupReplica, setupTxNumber } from './utils'
+import { setupLag, setupPrimary, setupReplica, setupTxNumber } from './utils'
 import {
 	appendTxNumberCookie,
 	ensurePrimary,
+	getHealthCheckResponse,
+	getLiteFSMiddleware,
+	getReplayResponse,
 	handleTransactionalConsistency,
 	ensureInstance,
+	withLiteFS,
 } from '../src/remix'
-import { TXID_NUM_COOKIE_NAME } from '../src'
+import {
+	getTxSetCookieHeader,
+	TXID_NUM_COOKIE_NAME,
+	TXID_NUM_HEADER_NAME,
+} from '../src'
 
 await test('ensurePrimary() does not throw a Response when on primary', async () => {
 	await setupPrimary()
@@ -55,7 +63,7 @@ await test('handleTransactionalConsistency() returns replay if the txnum is old'
 		},
 	})
 	const response = await handleTransactionalConsistency(req).catch(r => r)
-	assert.equal(response.status, 302)
+	assert.equal(response.status, 307)
 	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
 })
 
@@ -85,7 +93,7 @@ await test('appendTxNumberCookie() adds a txnum cookie on primary POST requests'
 	const cookieHeader = headers.get('Set-Cookie')
 	assert.ok(cookieHeader)
 	const cook = cookie.parse(cookieHeader)
-	assert.equal(cook[TXID_NUM_COOKIE_NAME], txnum.toString())
+	assert.equal(cook[TXID_NUM_COOKIE_NAME], `${txnum}/0`)
 })
 
 await test('ensureInstance() resolves when instance matches currentInstance', async () => {
@@ -104,3 +112,372 @@ await test('ensureInstance() throws a Response when instance does not match curr
 	assert.equal(response.status, 302)
 	assert.equal(response.headers.get('fly-replay'), `instance=${fakeInstance}`)
 })
+
+await test('appendTxNumberCookie() adds the tx number of each database when given databaseFilenames', async () => {
+	await setupPrimary()
+	await setupTxNumber(10, 'app.db')
+	await setupTxNumber(3, 'sessions.db')
+	const request = new Request('http://localhost:3000', { method: 'POST' })
+	const headers = new Headers()
+	await appendTxNumberCookie(request, headers, {
+		databaseFilenames: ['app.db', 'sessions.db'],
+	})
+	const cookieHeader = headers.get('Set-Cookie')
+	assert.ok(cookieHeader)
+	const cook = cookie.parse(cookieHeader)
+	assert.equal(cook[TXID_NUM_COOKIE_NAME], 'app.db:10/0,sessions.db:3/0')
+})
+
+await test('handleTransactionalConsistency() returns delete-cookie when every database is up to date', async () => {
+	await setupReplica()
+	await setupTxNumber(10, 'app.db')
+	await setupTxNumber(3, 'sessions.db')
+	const req = new Request('http://localhost:3000', {
+		headers: {
+			cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, 'app.db:10,sessions.db:3'),
+		},
+	})
+	const result = await handleTransactionalConsistency(req, {
+		databaseFilenames: ['app.db', 'sessions.db'],
+	})
+	assert.equal(result.type, 'delete-cookie')
+})
+
+await test('handleTransactionalConsistency() returns replay if any database is behind', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(10, 'app.db')
+	await setupTxNumber(3, 'sessions.db')
+	const req = new Request('http://localhost:3000', {
+		headers: {
+			cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, 'app.db:10,sessions.db:4'),
+		},
+	})
+	const response = await handleTransactionalConsistency(req, {
+		databaseFilenames: ['app.db', 'sessions.db'],
+	}).catch(r => r)
+	assert.equal(response.status, 307)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('handleTransactionalConsistency() returns delete-cookie if the cookie references an unknown database', async () => {
+	await setupReplica()
+	const req = new Request('http://localhost:3000', {
+		headers: {
+			cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '../../etc/passwd:1'),
+		},
+	})
+	const result = await handleTransactionalConsistency(req, {
+		databaseFilenames: ['app.db', 'sessions.db'],
+	})
+	assert.equal(result.type, 'delete-cookie')
+})
+
+function getRequestWithTxCookie(setCookieHeader: string) {
+	const value = cookie.parse(setCookieHeader)[TXID_NUM_COOKIE_NAME]
+	assert.ok(value)
+	return new Request('http://localhost:3000', {
+		headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, value) },
+	})
+}
+
+await test('appendTxNumberCookie() signs the txnum cookie when given secrets', async () => {
+	await setupPrimary()
+	await setupTxNumber(10)
+	const request = new Request('http://localhost:3000', { method: 'POST' })
+	const headers = new Headers()
+	await appendTxNumberCookie(request, headers, { secrets: ['s3cret'] })
+	const cookieHeader = headers.get('Set-Cookie')
+	assert.ok(cookieHeader)
+	const value = cookie.parse(cookieHeader)[TXID_NUM_COOKIE_NAME]
+	assert.ok(value)
+	assert.match(value, /^10\/0\.[\w-]+$/)
+})
+
+await test('handleTransactionalConsistency() accepts cookies signed with any of the secrets', async () => {
+	await setupReplica()
+	await setupTxNumber(10)
+	const req = getRequestWithTxCookie(
+		getTxSetCookieHeader(10, { secrets: 'old-secret' }),
+	)
+	const result = await handleTransactionalConsistency(req, {
+		secrets: ['new-secret', 'old-secret'],
+	})
+	assert.equal(result.type, 'delete-cookie')
+})
+
+await test('handleTransactionalConsistency() waits for signed tx numbers', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(10)
+	const req = getRequestWithTxCookie(
+		getTxSetCookieHeader(11, { secrets: 's3cret' }),
+	)
+	const response = await handleTransactionalConsistency(req, {
+		secrets: 's3cret',
+	}).catch(r => r)
+	assert.equal(response.status, 307)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('handleTransactionalConsistency() deletes unsigned and forged cookies when given secrets', async () => {
+	await setupReplica()
+	await setupTxNumber(10)
+	for (const setCookieHeader of [
+		getTxSetCookieHeader(999999),
+		getTxSetCookieHeader(999999, { secrets: 'not-the-secret' }),
+	]) {
+		const result = await handleTransactionalConsistency(
+			getRequestWithTxCookie(setCookieHeader),
+			{ secrets: 's3cret' },
+		)
+		assert.equal(result.type, 'delete-cookie')
+		if (result.type === 'delete-cookie') {
+			const cookies = cookie.parse(result.setCookieHeader)
+			assert.equal(cookies.Expires, new Date(0).toUTCString())
+		}
+	}
+})
+
+await test('appendTxNumberCookie() sets the LiteFS-Tx header when the transport is header', async () => {
+	await setupPrimary()
+	await setupTxNumber(10)
+	const request = new Request('http://localhost:3000', { method: 'POST' })
+	const headers = new Headers()
+	await appendTxNumberCookie(request, headers, { transport: 'header' })
+	assert.equal(headers.get('Set-Cookie'), null)
+	assert.equal(headers.get(TXID_NUM_HEADER_NAME), '10/0')
+})
+
+await test('appendTxNumberCookie() sets both the cookie and the header when the transport is both', async () => {
+	await setupPrimary()
+	await setupTxNumber(10)
+	const request = new Request('http://localhost:3000', { method: 'POST' })
+	const headers = new Headers()
+	await appendTxNumberCookie(request, headers, { transport: 'both' })
+	assert.ok(headers.get('Set-Cookie'))
+	assert.equal(headers.get(TXID_NUM_HEADER_NAME), '10/0')
+})
+
+await test('handleTransactionalConsistency() ignores the LiteFS-Tx header by default', async () => {
+	await setupReplica()
+	await setupTxNumber(2)
+	const req = new Request('http://localhost:3000', {
+		headers: { [TXID_NUM_HEADER_NAME]: '3' },
+	})
+	const result = await handleTransactionalConsistency(req)
+	assert.equal(result.type, 'ok')
+})
+
+await test('handleTransactionalConsistency() returns replay if the LiteFS-Tx header is ahead', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(2)
+	const req = new Request('http://localhost:3000', {
+		headers: { [TXID_NUM_HEADER_NAME]: '3' },
+	})
+	const response = await handleTransactionalConsistency(req, {
+		transport: 'header',
+	}).catch(r => r)
+	assert.equal(response.status, 307)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('handleTransactionalConsistency() returns ok if the LiteFS-Tx header is up to date', async () => {
+	await setupReplica()
+	await setupTxNumber(3)
+	const req = new Request('http://localhost:3000', {
+		headers: { [TXID_NUM_HEADER_NAME]: '3' },
+	})
+	const result = await handleTransactionalConsistency(req, {
+		transport: 'header',
+	})
+	assert.equal(result.type, 'ok')
+})
+
+await test('handleTransactionalConsistency() waits for the newest of the cookie and header tx numbers', async () => {
+	const primary = await setupReplica()
+	await setupTxNumber(3)
+	const req = new Request('http://localhost:3000', {
+		headers: {
+			cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, '3'),
+			[TXID_NUM_HEADER_NAME]: '4',
+		},
+	})
+	const response = await handleTransactionalConsistency(req, {
+		transport: 'both',
+	}).catch(r => r)
+	assert.equal(response.status, 307)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('getHealthCheckResponse() is ok on primary regardless of the lag', async () => {
+	await setupPrimary()
+	await setupTxNumber(2)
+	await setupLag(60_000)
+	const response = await getHealthCheckResponse({ maxLagMs: 1000 })
+	assert.equal(response.status, 200)
+	const body = await response.json()
+	assert.equal(body.role, 'primary')
+	assert.equal(body.lagMs, 0)
+})
+
+await test('getHealthCheckResponse() responds with 503 when the replica lags behind', async () => {
+	await setupReplica()
+	await setupTxNumber(2)
+	await setupLag(60_000)
+	const response = await getHealthCheckResponse()
+	assert.equal(response.status, 503)
+	const body = await response.json()
+	assert.deepEqual(body.reasons, [
+		'replication lag of 60000ms is above 10000ms',
+	])
+})
+
+await test('withLiteFS() sets the txnum cookie on responses to mutations', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const action = withLiteFS(async () => {
+		await setupTxNumber(4)
+		return Response.redirect('http://localhost:3000/notes')
+	})
+	const request = new Request('http://localhost:3000', { method: 'POST' })
+	const response = (await action({ request })) as Response
+	assert.equal(response.status, 302)
+	assert.equal(response.headers.get('Location'), 'http://localhost:3000/notes')
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies[TXID_NUM_COOKIE_NAME], '4/0')
+})
+
+await test('withLiteFS() sets the txnum cookie on thrown responses', async () => {
+	await setupPrimary()
+	await setupTxNumber(2)
+	const action = withLiteFS(async () => {
+		throw Response.redirect('http://localhost:3000/notes')
+	})
+	const request = new Request('http://localhost:3000', { method: 'POST' })
+	const response = await action({ request }).catch(r => r)
+	assert.ok(response instanceof Response)
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies[TXID_NUM_COOKIE_NAME], '2/0')
+})
+
+await test('withLiteFS() replays mutations to the primary', async () => {
+	const primary = await setupReplica()
+	let called = false
+	const action = withLiteFS(() => {
+		called = true
+		return null
+	})
+	const request = new Request('http://localhost:3000', { method: 'POST' })
+	const response = await action({ request }).catch(r => r)
+	assert.equal(response.status, 307)
+	assert.equal(response.headers.get('Location'), '/')
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+	assert.equal(called, false)
+})
+
+await test('withLiteFS() returns the data of loaders that need no cookie', async () => {
+	await setupReplica()
+	const loader = withLiteFS(() => ({ notes: [] }))
+	const request = new Request('http://localhost:3000')
+	assert.deepStrictEqual(await loader({ request }), { notes: [] })
+})
+
+await test('withLiteFS() returns data as JSON when the cookie must be deleted', async () => {
+	await setupReplica()
+	const loader = withLiteFS(() => ({ notes: [] }))
+	const request = new Request('http://localhost:3000', {
+		headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, 'invalid') },
+	})
+	const response = (await loader({ request })) as Response
+	assert.deepStrictEqual(await response.json(), { notes: [] })
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies.Expires, new Date(0).toUTCString())
+})
+
+await test('withLiteFS() adds the cookie headers to data with the data option', async () => {
+	await setupReplica()
+	const createdAt = new Date(0)
+	// the shape of react-router's data()
+	const data = <Value>(value: Value, init: { headers: Headers }) => ({
+		type: 'DataWithResponseInit' as const,
+		data: value,
+		init,
+	})
+	const loader = withLiteFS(() => ({ createdAt }), { data })
+	const request = new Request('http://localhost:3000', {
+		headers: { cookie: cookie.serialize(TXID_NUM_COOKIE_NAME, 'invalid') },
+	})
+	const result = await loader({ request })
+	assert.ok('type' in result && result.type === 'DataWithResponseInit')
+	assert.equal(result.data.createdAt, createdAt)
+	const cookies = cookie.parse(result.init.headers.get('Set-Cookie')!)
+	assert.equal(cookies.Expires, new Date(0).toUTCString())
+})
+
+await test('getLiteFSMiddleware() sets the txnum cookie after the handlers', async () => {
+	await setupPrimary()
+	await setupTxNumber(1)
+	const middleware = getLiteFSMiddleware()
+	const request = new Request('http://localhost:3000', { method: 'POST' })
+	const response = await middleware({ request }, async () => {
+		await setupTxNumber(6)
+		return new Response('ok')
+	})
+	assert.equal(await response.text(), 'ok')
+	const cookies = cookie.parse(response.headers.get('Set-Cookie')!)
+	assert.equal(cookies[TXID_NUM_COOKIE_NAME], '6/0')
+})
+
+await test('getLiteFSMiddleware() returns the replay response without calling next', async () => {
+	const primary = await setupReplica()
+	const middleware = getLiteFSMiddleware()
+	const request = new Request('http://localhost:3000', { method: 'DELETE' })
+	const response = await middleware({ request }, () => {
+		throw new Error('next should not be called')
+	})
+	assert.equal(response.status, 307)
+	assert.equal(response.headers.get('fly-replay'), `instance=${primary}`)
+})
+
+await test('getReplayResponse() redirects document requests to the original URL', () => {
+	const request = new Request('http://localhost:3000/notes/new?draft=1', {
+		method: 'POST',
+		headers: { 'Sec-Fetch-Mode': 'navigate' },
+	})
+	const response = getReplayResponse('primary', { request })
+	assert.equal(response.status, 307)
+	assert.equal(response.headers.get('Location'), '/notes/new?draft=1')
+	assert.equal(response.headers.get('fly-replay'), 'instance=primary')
+})
+
+await test('getReplayResponse() responds to data requests with a 409', () => {
+	for (const request of [
+		new Request('http://localhost:3000/notes.data'),
+		new Request('http://localhost:3000/notes?_data=routes%2Fnotes'),
+		new Request('http://localhost:3000/api/notes', {
+			headers: { 'Sec-Fetch-Mode': 'cors' },
+		}),
+	]) {
+		const response = getReplayResponse('primary', { request })
+		assert.equal(response.status, 409)
+		assert.equal(response.headers.get('Location'), null)
+		assert.equal(response.headers.get('fly-replay'), 'instance=primary')
+	}
+})
+
+await test('getReplayResponse() throws in development', () => {
+	assert.throws(
+		() => getReplayResponse('primary', { development: true }),
+		/fly-replay: instance=primary/,
+	)
+	const nodeEnv = process.env.NODE_ENV
+	process.env.NODE_ENV = 'development'
+	try {
+		assert.throws(() => getReplayResponse('primary'), /fly-replay/)
+		assert.equal(
+			getReplayResponse('primary', { development: false }).status,
+			302,
+		)
+	} finally {
+		process.env.NODE_ENV = nodeEnv
+	}
+})
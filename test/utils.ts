@@ -91,6 +91,7 @@ export async function createServer() {
 	servers.add(server)
 	return {
 		app,
+		origin: `http://localhost:${port}`,
 		fetch: (pathname: string, options?: RequestInit) => {
 			return fetch(`http://localhost:${port}${pathname}`, options)
 		},
@@ -110,13 +111,20 @@ export async function setupReplica() {
 	return primary
 }
 
-export async function setupTxNumber(txnum: number = 0) {
+export async function setupTxNumber(
+	txnum: number = 0,
+	databaseFilename = process.env.DATABASE_FILENAME,
+) {
 	await fs.promises.writeFile(
-		`${process.env.LITEFS_DIR}/${process.env.DATABASE_FILENAME}-pos`,
+		`${process.env.LITEFS_DIR}/${databaseFilename}-pos`,
 		`${txnum.toString(16)}/${(0.0).toString(16)}`,
 	)
 }
 
+export async function setupLag(lagMs: number) {
+	await fs.promises.writeFile(`${process.env.LITEFS_DIR}/.lag`, String(lagMs))
+}
+
 export function hasOwn(obj: object, key: PropertyKey): boolean {
 	return Object.prototype.hasOwnProperty.call(obj, key)
 }